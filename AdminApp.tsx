@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import type { Affiliation, ApplicationFilters, ApplicationRecord, ApplicationStatus, ApplicationSummary, Language } from './types';
+import { LANGUAGES, MESSAGES, optionLabel, type Messages } from './locales';
+import ApplicationDetail from './components/ApplicationDetail';
+import { AdminApiError, addNote, clearAdminToken, getAdminToken, getApplication, issueMemberNumber, listApplications, login, updateStatus } from './utils/adminClient';
+import { affiliationName, loadAffiliations } from './utils/affiliations';
+import { downloadBlob } from './utils/download';
+import { GRADE_LABELS } from './utils/grade';
+import { detectLanguage, storeLanguage } from './utils/language';
+import { buildMemberCardPdf, buildMemberCardPngArchive, buildMemberCardSheetPdf, type MemberCardInput } from './utils/memberCard';
+import { buildApplicationsWorkbook } from './utils/spreadsheetExport';
+
+const MEMBERSHIP_TYPES = ['개인', '단체'];
+
+const inputClass = 'h-10 px-3 border border-gray-300 rounded-md shadow-sm bg-slate-50 text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const AdminLogin: React.FC<{ language: Language; messages: Messages; onLogin: () => void }> = ({ language, messages, onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const text = messages.admin;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await login(username, password, language);
+      onLogin();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-xl shadow-2xl p-8 space-y-5">
+      <h1 className="text-2xl font-extrabold text-slate-800 text-center">{text.loginTitle}</h1>
+      <div>
+        <label htmlFor="adminUsername" className="block text-sm font-semibold text-gray-700 mb-1.5">{text.username}</label>
+        <input id="adminUsername" value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" className={`w-full ${inputClass}`} />
+      </div>
+      <div>
+        <label htmlFor="adminPassword" className="block text-sm font-semibold text-gray-700 mb-1.5">{text.password}</label>
+        <input id="adminPassword" type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="current-password" className={`w-full ${inputClass}`} />
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <button type="submit" className="w-full py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">{text.login}</button>
+    </form>
+  );
+};
+
+const AdminApp: React.FC = () => {
+  const [isLoggedIn, setIsLoggedIn] = useState(() => Boolean(getAdminToken()));
+  const [filters, setFilters] = useState<ApplicationFilters>({});
+  const [applications, setApplications] = useState<ApplicationSummary[]>([]);
+  const [affiliations, setAffiliations] = useState<Affiliation[]>([]);
+  const [selected, setSelected] = useState<ApplicationRecord | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [error, setError] = useState('');
+  const [language, setLanguage] = useState<Language>(detectLanguage);
+  const messages = MESSAGES[language];
+  const text = messages.admin;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    storeLanguage(language);
+  }, [language]);
+
+  const cardHolders = applications.filter(application => application.memberNumber);
+
+  const handleError = (err: unknown) => {
+    if (err instanceof AdminApiError && err.status === 401) {
+      setIsLoggedIn(false);
+      return;
+    }
+    setError((err as Error).message);
+  };
+
+  const refresh = () => {
+    listApplications(filters, language)
+      .then(result => { setApplications(result); setError(''); })
+      .catch(handleError);
+  };
+
+  useEffect(() => {
+    loadAffiliations().then(setAffiliations).catch(err => setError((err as Error).message));
+  }, []);
+
+  useEffect(() => {
+    if (isLoggedIn) refresh();
+  }, [isLoggedIn, filters]);
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleOpen = (applicationNumber: string) => {
+    getApplication(applicationNumber, language).then(setSelected).catch(handleError);
+  };
+
+  const handleUpdate = async (update: Promise<ApplicationRecord>) => {
+    setIsSaving(true);
+    try {
+      setSelected(await update);
+      refresh();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = (bookType: 'csv' | 'xlsx') => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(buildApplicationsWorkbook(applications, affiliations, bookType), text.listFileName(date, bookType));
+  };
+
+  const cardInput = (application: ApplicationRecord): MemberCardInput => ({
+    formData: application.formData,
+    profileImage: application.profileImage,
+    affiliationName: affiliationName(affiliations, application.formData.affiliation),
+    memberNumber: application.memberNumber ?? '',
+    issuedAt: application.memberNumberIssuedAt ? new Date(application.memberNumberIssuedAt) : undefined,
+  });
+
+  const handleDownloadCard = async (format: 'png' | 'pdf') => {
+    if (!selected?.memberNumber) return;
+    setIsSaving(true);
+    try {
+      if (format === 'pdf') {
+        downloadBlob(new Blob([await buildMemberCardPdf(cardInput(selected), language)], { type: 'application/pdf' }), text.cardFileName(selected.memberNumber, 'pdf'));
+      } else {
+        downloadBlob(new Blob([await buildMemberCardPngArchive(cardInput(selected), language)], { type: 'application/zip' }), text.cardFileName(selected.memberNumber, 'zip'));
+      }
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The list has no photos, so each card holder's record is fetched one at a time.
+  const handlePrintCards = async () => {
+    setIsPrinting(true);
+    try {
+      const inputs: MemberCardInput[] = [];
+      for (const { applicationNumber } of cardHolders) inputs.push(cardInput(await getApplication(applicationNumber, language)));
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(new Blob([await buildMemberCardSheetPdf(inputs, language)], { type: 'application/pdf' }), text.cardSheetFileName(date));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handleLogout = () => {
+    clearAdminToken();
+    setIsLoggedIn(false);
+  };
+
+  if (!isLoggedIn) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+        <AdminLogin language={language} messages={messages} onLogin={() => setIsLoggedIn(true)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-100 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-6xl mx-auto bg-white rounded-xl shadow-2xl p-6 md:p-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl sm:text-3xl font-extrabold text-slate-800">{text.title}</h1>
+          <div className="flex items-center gap-3">
+            <div className="flex" role="group" aria-label={messages.form.languageLabel}>
+              {LANGUAGES.map(code => (
+                <button key={code} type="button" lang={code} onClick={() => setLanguage(code)} aria-pressed={language === code} className={`px-3 py-1 text-xs font-semibold border first:rounded-l-md last:rounded-r-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${language === code ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-600 hover:bg-slate-100'}`}>
+                  {MESSAGES[code].languageName}
+                </button>
+              ))}
+            </div>
+            <button type="button" onClick={handleLogout} className="px-3 py-1.5 text-sm font-semibold text-gray-600 border border-gray-300 rounded-lg hover:bg-slate-100">{text.logout}</button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <select name="affiliation" value={filters.affiliation ?? ''} onChange={handleFilterChange} aria-label={messages.fieldLabels.affiliation} className={inputClass}>
+            <option value="">{text.allAffiliations}</option>
+            {affiliations.map(({ id, name, active }) => <option key={id} value={id}>{active ? name : text.inactive(name)}</option>)}
+          </select>
+          <select name="membershipType" value={filters.membershipType ?? ''} onChange={handleFilterChange} aria-label={messages.fieldLabels.membershipType} className={inputClass}>
+            <option value="">{text.allMembershipTypes}</option>
+            {MEMBERSHIP_TYPES.map(type => <option key={type} value={type}>{optionLabel(messages, 'membershipType', type)}</option>)}
+          </select>
+          <select name="grade" value={filters.grade ?? ''} onChange={handleFilterChange} aria-label={text.grade} className={inputClass}>
+            <option value="">{text.allGrades}</option>
+            {GRADE_LABELS.map(grade => <option key={grade} value={grade}>{messages.gradeLabel(grade)}</option>)}
+          </select>
+          <input type="date" name="from" value={filters.from ?? ''} onChange={handleFilterChange} aria-label={text.submittedFrom} className={inputClass} />
+          <input type="date" name="to" value={filters.to ?? ''} onChange={handleFilterChange} aria-label={text.submittedTo} className={inputClass} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">{text.count(applications.length)}</p>
+          <div className="flex gap-2">
+            <button type="button" onClick={handlePrintCards} disabled={cardHolders.length === 0 || isPrinting} className="px-3 py-1.5 text-sm font-semibold text-gray-700 border border-gray-300 rounded-lg hover:bg-slate-100 disabled:opacity-50">{isPrinting ? text.printingCards : text.printCards(cardHolders.length)}</button>
+            <button type="button" onClick={() => handleExport('csv')} disabled={applications.length === 0} className="px-3 py-1.5 text-sm font-semibold text-gray-700 border border-gray-300 rounded-lg hover:bg-slate-100 disabled:opacity-50">{text.exportCsv}</button>
+            <button type="button" onClick={() => handleExport('xlsx')} disabled={applications.length === 0} className="px-3 py-1.5 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50">{text.exportExcel}</button>
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-100 text-gray-700">
+              <tr>
+                {text.columns.map(header => <th key={header} className="px-3 py-2 font-semibold whitespace-nowrap">{header}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {applications.length === 0 && (
+                <tr><td colSpan={8} className="px-4 py-6 text-center text-gray-500">{text.empty}</td></tr>
+              )}
+              {applications.map(({ applicationNumber, submittedAt, formData, grade, status, memberNumber }) => (
+                <tr key={applicationNumber} onClick={() => handleOpen(applicationNumber)} className="border-t border-gray-200 cursor-pointer hover:bg-indigo-50">
+                  <td className="px-3 py-2 font-medium text-indigo-600 whitespace-nowrap">{applicationNumber}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{new Date(submittedAt).toLocaleString(messages.locale)}</td>
+                  <td className="px-3 py-2">{formData.nameKorean}</td>
+                  <td className="px-3 py-2">{affiliationName(affiliations, formData.affiliation)}</td>
+                  <td className="px-3 py-2">{optionLabel(messages, 'membershipType', formData.membershipType)}</td>
+                  <td className="px-3 py-2">{messages.gradeLabel(grade)}</td>
+                  <td className="px-3 py-2">{text.statuses[status]}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{memberNumber ?? '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selected && (
+        <ApplicationDetail
+          application={selected}
+          messages={messages}
+          affiliationName={affiliationName(affiliations, selected.formData.affiliation)}
+          isSaving={isSaving}
+          onStatusChange={(status: ApplicationStatus) => handleUpdate(updateStatus(selected.applicationNumber, status, language))}
+          onAddNote={(note) => handleUpdate(addNote(selected.applicationNumber, note, language))}
+          onIssueMemberNumber={() => handleUpdate(issueMemberNumber(selected.applicationNumber, language))}
+          onDownloadCard={handleDownloadCard}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminApp;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import App from './App';
+import affiliations from './public/affiliations.json';
+import { MESSAGES } from './locales';
+import { expectNoAxeViolations } from './test/axe';
+import { expectErrorsLinkedToFields } from './test/fieldErrors';
+
+const messages = MESSAGES.ko;
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(affiliations))));
+  // jsdom has no layout, so scrolling is a no-op here.
+  Element.prototype.scrollIntoView = vi.fn();
+  window.scrollTo = vi.fn();
+  // jsdom has no IndexedDB either; the form logs that drafts can't be loaded and carries on.
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  localStorage.clear();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const renderApp = async () => {
+  const view = render(<App />);
+  await screen.findByRole('option', { name: affiliations[0].name });
+  return view;
+};
+
+describe('App accessibility', () => {
+  it('links every field error on a failed step to its field and lists it in the summary', async () => {
+    const { container } = await renderApp();
+    fireEvent.click(screen.getByRole('button', { name: messages.wizard.next }));
+
+    const summary = await screen.findByRole('alert');
+    expectErrorsLinkedToFields(container);
+
+    const links = within(summary).getAllByRole('link');
+    expect(links.length).toBe(container.querySelectorAll('[id$="-error"]').length);
+    links.forEach(link => {
+      const id = link.getAttribute('href')!.slice(1);
+      expect(document.getElementById(id) ?? document.querySelector(`[name="${id}"]`), id).not.toBeNull();
+    });
+    await expectNoAxeViolations(container);
+  });
+
+  it('moves focus to the field when a summary link is followed', async () => {
+    await renderApp();
+    fireEvent.click(screen.getByRole('button', { name: messages.wizard.next }));
+    const summary = await screen.findByRole('alert');
+    fireEvent.click(within(summary).getByRole('link', { name: messages.validation.emailRequired }));
+    await waitFor(() => expect(document.activeElement?.id).toBe('email'));
+  });
+});
@@ -1,23 +1,119 @@
-import React, { useState, useRef } from 'react';
-import type { FormData } from './types';
-import { AFFILIATIONS } from './constants';
+import React, { useState, useRef, useEffect } from 'react';
+import type { Affiliation, ConsentDocumentId, ConsentRecord, ConsentRecords, CoordinatorErrors, ErrorSummaryItem, FormData, FormErrorKey, FormErrors, GroupCoordinator, GroupMember, Guardian, GuardianErrors, Language, PostalAddress, SubmissionReceipt, WizardStep } from './types';
+import { GUARDIAN_RELATIONSHIPS } from './constants';
+import AddressSearch from './components/AddressSearch';
+import ApplicationReview from './components/ApplicationReview';
+import ConsentModal from './components/ConsentModal';
+import ErrorSummary from './components/ErrorSummary';
+import GroupRoster from './components/GroupRoster';
+import GuardianList from './components/GuardianList';
+import PhoneVerification from './components/PhoneVerification';
+import PhotoEditor from './components/PhotoEditor';
+import SignaturePad from './components/SignaturePad';
+import { LANGUAGES, MESSAGES, optionLabel, type Messages } from './locales';
+import { addressProvider } from './utils/address';
+import { createApplicationPayload, embedPayloadInJpeg, PayloadError, payloadQrCode, signPayload } from './utils/applicationPayload';
+import { affiliationName, findAffiliation, loadAffiliations, resolveAffiliationId } from './utils/affiliations';
+import { createConsentRecord, currentConsents, hasRequiredConsents } from './utils/consent';
+import { downloadBlob } from './utils/download';
+import { deleteDraft, loadDraft, saveDraft, type ApplicationDraft } from './utils/draftStore';
+import { calculateGrade, effectiveGrade, GRADE_LABELS } from './utils/grade';
+import { buildGroupArchive } from './utils/groupExport';
+import { createGuardian, relationshipLabel, requiresGuardian } from './utils/guardians';
+import { errorAttributes, errorId } from './utils/fieldErrors';
+import { detectLanguage, storeLanguage } from './utils/language';
+import { buildApplicationPdf, fetchPdfFonts, FontLoadError } from './utils/pdfExport';
+import { formatPhone, normalizePhoneInput } from './utils/phone';
+import { PHONE_VERIFICATION_ENDPOINT } from './utils/phoneVerificationClient';
+import { decodePhoto, validatePhotoFile } from './utils/photo';
+import { readRosterFile } from './utils/rosterImport';
+import { SUBMISSION_ENDPOINT, SubmissionError, submitApplication } from './utils/submissionClient';
+import { firstErrorKey, isFormField, validateCoordinator, validateField, validateForm, validateGuardians, validateMember, validateProfileImage } from './utils/validation';
 
 declare const html2canvas: any;
 
+type ExportFormat = 'pdf' | 'jpeg';
+
+const INITIAL_FORM_DATA: FormData = {
+  affiliation: '', nameKorean: '', nameEnglish: '',
+  membershipType: '', gender: '', email: '',
+  phoneApplicant: '',
+  guardianRelationship: '', guardianRelationshipOther: '', guardianName: '', guardianPhone: '',
+  postalCode: '', roadAddress: '', jibunAddress: '', addressDetail: '',
+  signature: '', guardianSignature: '',
+  dateOfBirth: '', gradeOverride: '', gradeOverrideReason: '',
+};
+
+const INITIAL_COORDINATOR: GroupCoordinator = { name: '', phone: '', email: '' };
+
+const COORDINATOR_FIELDS: { field: keyof GroupCoordinator; label: keyof Messages['form']; type: string }[] = [
+  { field: 'name', label: 'coordinatorName', type: 'text' },
+  { field: 'phone', label: 'coordinatorPhone', type: 'tel' },
+  { field: 'email', label: 'coordinatorEmail', type: 'email' },
+];
+
+// In the order they are shown; the marker tells applicants which ones they may skip.
+const CONSENT_CHECKBOXES: { documentId: ConsentDocumentId; label: keyof Messages['form']; marker?: 'required' | 'optional' }[] = [
+  { documentId: 'benefits', label: 'benefitsCheckbox' },
+  { documentId: 'pledge', label: 'pledgeCheckbox', marker: 'required' },
+  { documentId: 'privacy', label: 'privacyCheckbox', marker: 'required' },
+  { documentId: 'promotion', label: 'promotionCheckbox', marker: 'optional' },
+];
+
+const DRAFT_SAVE_DELAY_MS = 800;
+// Footer strip of the JPEG export that holds the application data QR code.
+const JPEG_QR_PIXELS = 320;
+
+// Centers hand out links like ?center=cheongna that pre-select and lock their affiliation.
+const CENTER_FROM_URL = new URLSearchParams(window.location.search).get('center') ?? '';
+
+const createMember = (values: Partial<FormData> = {}): GroupMember => ({
+  id: crypto.randomUUID(),
+  formData: { ...INITIAL_FORM_DATA, ...values, membershipType: '단체' },
+  profileImage: null,
+});
+
+const focusElement = (element: HTMLElement | null) => {
+  if (!element) return;
+  element.focus({ preventScroll: true });
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+};
+
+// Fields are found by id, or by name for radio groups.
+const focusField = (id: string) => focusElement(document.getElementById(id) ?? document.querySelector<HTMLElement>(`[name="${id}"]`));
+
+// 단체 applications collect guardians and photos per member on the roster, so they skip those steps.
+const INDIVIDUAL_STEPS: WizardStep[] = ['applicant', 'guardian', 'signature', 'consent', 'review'];
+const GROUP_STEPS: WizardStep[] = ['applicant', 'consent', 'review'];
+
+// Fields not listed here belong to the applicant step.
+const STEP_ERROR_KEYS: Partial<Record<WizardStep, FormErrorKey[]>> = {
+  guardian: ['guardianRelationship', 'guardianRelationshipOther', 'guardianName', 'guardianPhone', 'additionalGuardians'],
+  signature: ['profileImage', 'signature', 'guardianSignature'],
+  consent: ['consents'],
+};
+
+const stepOfError = (key: FormErrorKey): WizardStep =>
+  (Object.keys(STEP_ERROR_KEYS) as WizardStep[]).find(step => STEP_ERROR_KEYS[step]?.includes(key)) ?? 'applicant';
+
 interface FormFieldProps {
-  id: keyof FormData | 'guardianName' | 'guardianPhone';
+  id: string;
   label: string;
   type?: string;
   placeholder?: string;
   value: string;
   onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => void;
-  Icon?: (props: React.ComponentProps<'svg'>) => JSX.Element;
+  onBlur?: (e: React.FocusEvent<HTMLInputElement | HTMLSelectElement>) => void;
+  Icon?: (props: React.ComponentProps<'svg'>) => React.ReactElement;
   error?: string;
   children?: React.ReactNode;
   readOnly?: boolean;
 }
 
-const FormField: React.FC<FormFieldProps> = ({ id, label, type = "text", placeholder, value, onChange, Icon, error, children, readOnly }) => (
+// Phone fields hold E.164 once complete and are shown hyphenated while typing.
+const PHONE_FIELDS: string[] = ['phoneApplicant', 'guardianPhone'];
+
+const FormField: React.FC<FormFieldProps> = ({ id, label, type = "text", placeholder, value, onChange, onBlur, Icon, error, children, readOnly }) => (
   <div className="w-full">
     <label htmlFor={id} className="block text-sm font-semibold text-gray-700 mb-1.5">{label}</label>
     <div className="relative">
@@ -30,50 +126,258 @@ const FormField: React.FC<FormFieldProps> = ({ id, label, type = "text", placeho
         type={type}
         id={id}
         name={id}
-        value={value}
+        value={type === 'tel' ? formatPhone(value) : value}
         onChange={onChange}
+        onBlur={onBlur}
         placeholder={placeholder}
         readOnly={readOnly}
+        {...errorAttributes(id, error)}
         className={`w-full h-10 px-3 leading-10 border rounded-md shadow-sm transition duration-150 ease-in-out text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${value ? 'bg-slate-200 font-medium' : 'bg-slate-50'} ${Icon ? 'pl-10' : ''} ${readOnly ? 'cursor-not-allowed !bg-gray-200' : ''} ${error ? 'border-red-500 ring-red-500' : 'border-gray-300'}`}
       />
       {children}
     </div>
-    {error && <p className="mt-1.5 text-xs text-red-600">{error}</p>}
+    {error && <p id={errorId(id)} className="mt-1.5 text-xs text-red-600">{error}</p>}
   </div>
 );
 
 
 const App: React.FC = () => {
-  const [formData, setFormData] = useState<FormData>({
-    affiliation: '', nameKorean: '', nameEnglish: '',
-    membershipType: '', gender: '', email: '',
-    phoneApplicant: '',
-    guardianRelationship: '', guardianName: '', guardianPhone: '',
-    address: '', signature: '',
-    dateOfBirth: '',
-  });
+  const [language, setLanguage] = useState<Language>(detectLanguage);
+  const [formData, setFormData] = useState<FormData>(INITIAL_FORM_DATA);
 
   const [profileImage, setProfileImage] = useState<string | null>(null);
+  const [additionalGuardians, setAdditionalGuardians] = useState<Guardian[]>([]);
+  const [guardianErrors, setGuardianErrors] = useState<Record<string, GuardianErrors>>({});
+  const [photoToEdit, setPhotoToEdit] = useState<ImageBitmap | null>(null);
+  // Which photo the editor is cropping: a group member's id, or null for the individual applicant.
+  const [photoTarget, setPhotoTarget] = useState<string | null>(null);
+  const [coordinator, setCoordinator] = useState<GroupCoordinator>(INITIAL_COORDINATOR);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [coordinatorErrors, setCoordinatorErrors] = useState<CoordinatorErrors>({});
+  const [memberErrors, setMemberErrors] = useState<Record<string, FormErrors>>({});
+  const [rosterImportError, setRosterImportError] = useState('');
+  const [receipt, setReceipt] = useState<SubmissionReceipt | null>(null);
+  // Group members already received by the server; they leave the roster so a retry can't send them twice.
+  const [submittedMembers, setSubmittedMembers] = useState<{ member: GroupMember; receipt: SubmissionReceipt }[]>([]);
   const [englishNameWarning, setEnglishNameWarning] = useState<string>('');
-  const [isPledgeModalOpen, setIsPledgeModalOpen] = useState(false);
-  const [isBenefitsModalOpen, setIsBenefitsModalOpen] = useState(false);
-  const [pledgeChecked, setPledgeChecked] = useState(false);
-  const [benefitsChecked, setBenefitsChecked] = useState(false);
+  const [openConsent, setOpenConsent] = useState<ConsentDocumentId | null>(null);
+  const [consentError, setConsentError] = useState('');
+  const [consents, setConsents] = useState<ConsentRecords>({});
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('pdf');
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingDraft, setPendingDraft] = useState<ApplicationDraft | null>(null);
+  // Autosave stays off until any stored draft has been restored or discarded, so it can't be overwritten by an empty form.
+  const [isDraftReady, setIsDraftReady] = useState(false);
+
+  const [affiliations, setAffiliations] = useState<Affiliation[]>([]);
+  // Affiliation id fixed by the ?center= link, or '' when the applicant picks one.
+  const [lockedAffiliation, setLockedAffiliation] = useState('');
 
-  const [errors, setErrors] = useState<Partial<Record<keyof FormData | 'profileImage' | 'guardianRelationship' | 'guardianName' | 'guardianPhone', string>>>({});
+  const [isGradeOverrideOpen, setIsGradeOverrideOpen] = useState(false);
+  const [isAddressSearchOpen, setIsAddressSearchOpen] = useState(false);
+
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [step, setStep] = useState<WizardStep>('applicant');
+  // The number a code was confirmed for; editing the number afterwards needs a new code.
+  const [guardianPhoneVerification, setGuardianPhoneVerification] = useState<{ id: string; phone: string } | null>(null);
+  const [errorSummary, setErrorSummary] = useState<ErrorSummaryItem[]>([]);
 
   const formRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const messages = MESSAGES[language];
   const today = new Date();
-  const todayString = `${today.getFullYear()}년 ${today.getMonth() + 1}월 ${today.getDate()}일`;
+  const todayString = messages.formatDate(today);
+  const isGroup = formData.membershipType === '단체';
+  const needsGuardian = requiresGuardian(formData.dateOfBirth, today);
+  const selectedAffiliationName = affiliationName(affiliations, formData.affiliation);
+  const steps = isGroup ? GROUP_STEPS : INDIVIDUAL_STEPS;
+  const stepIndex = Math.max(0, steps.indexOf(step));
+  const isGuardianPhoneVerified = guardianPhoneVerification?.phone === formData.guardianPhone;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.title = messages.applicationTitle;
+    storeLanguage(language);
+  }, [language]);
+
+  useEffect(() => {
+    loadAffiliations()
+      .then(list => {
+        setAffiliations(list);
+        if (!CENTER_FROM_URL) return;
+        const center = findAffiliation(list, CENTER_FROM_URL);
+        if (center?.active) {
+          setLockedAffiliation(center.id);
+          setFormData(prev => ({ ...prev, affiliation: center.id }));
+        } else {
+          setErrors(prev => ({ ...prev, affiliation: messages.form.affiliationUnknown }));
+        }
+      })
+      .catch(error => {
+        console.error(error);
+        setErrors(prev => ({ ...prev, affiliation: messages.form.affiliationLoadFailed }));
+      });
+  }, []);
+
+  // Older drafts stored the affiliation label; swap it for the id once the registry is available.
+  useEffect(() => {
+    if (affiliations.length === 0 || !formData.affiliation) return;
+    const id = resolveAffiliationId(affiliations, formData.affiliation);
+    if (id !== formData.affiliation) setFormData(prev => ({ ...prev, affiliation: id }));
+  }, [affiliations, formData.affiliation]);
+
+  useEffect(() => {
+    loadDraft()
+      .then(draft => draft ? setPendingDraft(draft) : setIsDraftReady(true))
+      .catch(error => {
+        console.error(error);
+        setIsDraftReady(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isDraftReady) return;
+    const isPristine = !profileImage && Object.keys(consents).length === 0 && members.length === 0 && additionalGuardians.length === 0
+      && Object.entries(formData).every(([field, value]) => !value || (field === 'affiliation' && value === lockedAffiliation)) && Object.values(coordinator).every(value => !value);
+    if (isPristine) return;
+    const timer = setTimeout(() => {
+      saveDraft({ formData, profileImage, additionalGuardians, consents, coordinator, members }).catch(console.error);
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isDraftReady, formData, profileImage, additionalGuardians, consents, coordinator, members, lockedAffiliation]);
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    setFormData({ ...INITIAL_FORM_DATA, ...pendingDraft.formData, ...(lockedAffiliation && { affiliation: lockedAffiliation }) });
+    setProfileImage(pendingDraft.profileImage);
+    setAdditionalGuardians(pendingDraft.additionalGuardians ?? []);
+    setConsents(currentConsents(pendingDraft.consents));
+    setCoordinator(pendingDraft.coordinator ?? INITIAL_COORDINATOR);
+    setMembers(pendingDraft.members ?? []);
+    setIsGradeOverrideOpen(Boolean(pendingDraft.formData.gradeOverride || pendingDraft.formData.gradeOverrideReason));
+    setStep('applicant');
+    setErrorSummary([]);
+    setPendingDraft(null);
+    setIsDraftReady(true);
+  };
+
+  const handleDiscardDraft = () => {
+    deleteDraft().catch(console.error);
+    setPendingDraft(null);
+    setIsDraftReady(true);
+  };
+
+  // Messages already on screen are re-run in the new language; fields without an error stay untouched.
+  const handleLanguageChange = (next: Language) => {
+    setLanguage(next);
+    const context = { profileImage, affiliations, referenceDate: today, messages: MESSAGES[next].validation };
+    const translate = (key: FormErrorKey) => {
+      if (key === 'profileImage') return validateProfileImage(context);
+      if (key === 'additionalGuardians') return MESSAGES[next].validation.additionalGuardiansInvalid;
+      if (key === 'consents') return MESSAGES[next].validation[hasRequiredConsents(consents) ? 'consentsInvalid' : 'consentsRequired'];
+      if (key === 'guardianPhone') return validateField(key, formData, context) ?? MESSAGES[next].validation.guardianPhoneUnverified;
+      return validateField(key, formData, context);
+    };
+    setErrors(prev => Object.fromEntries(Object.entries(prev).map(([key, message]) => [key, message && translate(key as FormErrorKey)])));
+    if (Object.values(coordinatorErrors).some(Boolean)) setCoordinatorErrors(validateCoordinator(coordinator, context));
+    if (Object.values(guardianErrors).some(fieldErrors => Object.values(fieldErrors).some(Boolean))) {
+      setGuardianErrors(validateGuardians(additionalGuardians, formData, context));
+    }
+    setMemberErrors(prev => Object.fromEntries(members.filter(member => prev[member.id]).map(member => [
+      member.id,
+      validateMember(member.formData, { ...context, profileImage: member.profileImage }),
+    ])));
+    if (englishNameWarning) setEnglishNameWarning(MESSAGES[next].form.englishNameWarning);
+    // The summary holds messages in the old language; it comes back on the next attempt.
+    setErrorSummary([]);
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
+    const { name } = e.target;
+    const value = PHONE_FIELDS.includes(name) ? normalizePhoneInput(e.target.value) : e.target.value;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value,
+      // The free-text relationship only applies to 기타.
+      ...(name === 'guardianRelationship' && value !== '기타' && { guardianRelationshipOther: '' }),
+    }));
     if (errors[name as keyof FormData]) {
       setErrors(prev => ({ ...prev, [name]: undefined }));
     }
+    // A chosen grade can make a birth date eligible that the computed grade doesn't.
+    if (name === 'gradeOverride' && errors.dateOfBirth) setErrors(prev => ({ ...prev, dateOfBirth: undefined }));
+  };
+
+  const handleGradeOverrideToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setIsGradeOverrideOpen(e.target.checked);
+    if (!e.target.checked) {
+      setFormData(prev => ({ ...prev, gradeOverride: '', gradeOverrideReason: '' }));
+      setErrors(prev => ({ ...prev, gradeOverride: undefined, gradeOverrideReason: undefined }));
+    }
+  };
+
+  const handleGuardianChange = (id: string, field: keyof GuardianErrors, value: string) => {
+    setAdditionalGuardians(prev => prev.map(guardian => guardian.id !== id ? guardian : {
+      ...guardian,
+      [field]: value,
+      ...(field === 'relationship' && value !== '기타' && { relationshipOther: '' }),
+    }));
+    if (guardianErrors[id]?.[field]) setGuardianErrors(prev => ({ ...prev, [id]: { ...prev[id], [field]: undefined } }));
+    if (errors.additionalGuardians) setErrors(prev => ({ ...prev, additionalGuardians: undefined }));
+  };
+
+  const handleRemoveGuardian = (id: string) => {
+    setAdditionalGuardians(prev => prev.filter(guardian => guardian.id !== id));
+    setGuardianErrors(({ [id]: _removed, ...rest }) => rest);
+    if (errors.additionalGuardians) setErrors(prev => ({ ...prev, additionalGuardians: undefined }));
+  };
+
+  const handleAddressSelect = ({ postalCode, roadAddress, jibunAddress }: PostalAddress) => {
+    setFormData(prev => ({ ...prev, postalCode, roadAddress, jibunAddress }));
+    setErrors(prev => ({ ...prev, postalCode: undefined, roadAddress: undefined, jibunAddress: undefined }));
+    setIsAddressSearchOpen(false);
+    // Leave the applicant in the detail field, which the search can't fill in.
+    setTimeout(() => document.getElementById('addressDetail')?.focus());
+  };
+
+  // Checking a box only opens the document; the record is created once the applicant agrees in the modal.
+  const handleConsentChange = (documentId: ConsentDocumentId) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.checked) {
+      setOpenConsent(documentId);
+      return;
+    }
+    setConsents(({ [documentId]: _withdrawn, ...rest }) => rest);
+  };
+
+  const handleConsentAgree = async () => {
+    if (!openConsent) return;
+    let record: ConsentRecord;
+    try {
+      record = await createConsentRecord(openConsent, language);
+    } catch (error) {
+      // Web Crypto only exists on secure origins, so a plain-http deployment ends up here.
+      console.error(error);
+      setConsentError(messages.consent.recordFailed);
+      return;
+    }
+    setConsentError('');
+    setConsents(prev => ({ ...prev, [openConsent]: record }));
+    if (errors.consents) setErrors(prev => ({ ...prev, consents: undefined }));
+    setOpenConsent(null);
+  };
+
+  const handleSignatureChange = (field: 'signature' | 'guardianSignature') => (dataUrl: string) => {
+    setFormData(prev => ({ ...prev, [field]: dataUrl }));
+    if (dataUrl && errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name } = e.target;
+    if (!isFormField(name)) return;
+    setErrors(prev => ({ ...prev, [name]: validateField(name, formData, { profileImage, affiliations, messages: messages.validation }) }));
   };
 
   const handleEnglishNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -84,79 +388,338 @@ const App: React.FC = () => {
       setEnglishNameWarning('');
       if (errors.nameEnglish) setErrors(prev => ({...prev, nameEnglish: undefined}));
     } else {
-      setEnglishNameWarning('영문, 공백, 하이픈(-)만 입력 가능합니다.');
+      setEnglishNameWarning(messages.form.englishNameWarning);
     }
   };
   
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        setProfileImage(event.target?.result as string);
-        if (errors.profileImage) {
-          setErrors(prev => ({ ...prev, profileImage: undefined }));
-        }
-      };
-      reader.readAsDataURL(e.target.files[0]);
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change event.
+    e.target.value = '';
+    if (!file) return;
+    const fileError = validatePhotoFile(file, messages.photo);
+    if (fileError) {
+      setErrors(prev => ({ ...prev, profileImage: fileError }));
+      return;
+    }
+    try {
+      setPhotoTarget(null);
+      setPhotoToEdit(await decodePhoto(file, messages.photo));
+    } catch (error) {
+      setErrors(prev => ({ ...prev, profileImage: (error as Error).message }));
     }
   };
 
-  const calculateGrade = (birthDate: string): string => {
-    if (!birthDate) return '';
-    const birth = new Date(birthDate);
-    const today = new Date();
-    let age = today.getFullYear() - birth.getFullYear();
-    const m = today.getMonth() - birth.getMonth();
-    if (m < 0 || (m === 0 && today.getDate() < birth.getDate())) {
-      age--;
+  const setMemberError = (id: string, field: keyof FormErrors, message: string | undefined) => {
+    setMemberErrors(prev => ({ ...prev, [id]: { ...prev[id], [field]: message } }));
+  };
+
+  const handleMemberPhotoSelect = async (id: string, file: File) => {
+    const fileError = validatePhotoFile(file, messages.photo);
+    if (fileError) {
+      setMemberError(id, 'profileImage', fileError);
+      return;
+    }
+    try {
+      setPhotoTarget(id);
+      setPhotoToEdit(await decodePhoto(file, messages.photo));
+    } catch (error) {
+      setMemberError(id, 'profileImage', (error as Error).message);
+    }
+  };
+
+  const handleMemberChange = (id: string, field: keyof FormData, value: string) => {
+    setMembers(prev => prev.map(member => member.id === id ? { ...member, formData: { ...member.formData, [field]: value } } : member));
+    if (memberErrors[id]?.[field]) setMemberError(id, field, undefined);
+  };
+
+  const handleRemoveMember = (id: string) => {
+    setMembers(prev => prev.filter(member => member.id !== id));
+    setMemberErrors(({ [id]: _removed, ...rest }) => rest);
+  };
+
+  const handleRosterImport = async (file: File) => {
+    try {
+      const rows = await readRosterFile(file, messages.roster);
+      setMembers(prev => [...prev, ...rows.map(row => createMember(row))]);
+      setRosterImportError(rows.length === 0 ? messages.roster.fileEmpty : '');
+    } catch (error) {
+      setRosterImportError((error as Error).message);
+    }
+  };
+
+  const handleCoordinatorChange = (field: keyof GroupCoordinator) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const value = field === 'phone' ? normalizePhoneInput(e.target.value) : e.target.value;
+    setCoordinator(prev => ({ ...prev, [field]: value }));
+    if (coordinatorErrors[field]) setCoordinatorErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const closePhotoEditor = () => {
+    photoToEdit?.close();
+    setPhotoToEdit(null);
+  };
+
+  const handlePhotoConfirm = (dataUrl: string) => {
+    closePhotoEditor();
+    if (photoTarget) {
+      setMembers(prev => prev.map(member => member.id === photoTarget ? { ...member, profileImage: dataUrl } : member));
+      setMemberError(photoTarget, 'profileImage', undefined);
+      return;
     }
+    setProfileImage(dataUrl);
+    if (errors.profileImage) {
+      setErrors(prev => ({ ...prev, profileImage: undefined }));
+    }
+  };
 
-    const koreanAge = age + 1;
+  // Moves to a step after its elements have rendered, optionally focusing a field on it.
+  const showStep = (target: WizardStep, focusId?: string) => {
+    setStep(target);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    if (focusId) setTimeout(() => focusField(focusId));
+  };
 
-    if (koreanAge >= 17) return `고${koreanAge - 16}`;
-    if (koreanAge >= 14) return `중${koreanAge - 13}`;
-    if (koreanAge >= 8) return `초${koreanAge - 7}`;
-    if (koreanAge >= 1) return '미취학';
-    return '';
+  // Validates the given steps and opens the first one with an error.
+  // Errors on other steps are left as they are, so moving forward doesn't flag fields not reached yet.
+  const validateSteps = (targets: WizardStep[]): boolean => {
+    const context = { profileImage, referenceDate: today, affiliations, messages: messages.validation };
+    const consentError = !targets.includes('consent') ? undefined
+      : !hasRequiredConsents(consents) ? messages.validation.consentsRequired : undefined;
+    const problems: Partial<Record<WizardStep, ErrorSummaryItem[]>> = {};
+    const addProblem = (target: WizardStep, id: string, message?: string) => {
+      if (message) problems[target] = [...(problems[target] ?? []), { id, message }];
+    };
+    if (isGroup) {
+      const groupContext = { ...context, profileImage: null };
+      const affiliationError = validateField('affiliation', formData, groupContext);
+      const newCoordinatorErrors = validateCoordinator(coordinator, groupContext);
+      const newMemberErrors = Object.fromEntries(
+        members.map(member => [member.id, validateMember(member.formData, { ...groupContext, profileImage: member.profileImage })]),
+      );
+      setErrors(prev => ({ ...prev, affiliation: affiliationError, consents: consentError }));
+      setCoordinatorErrors(newCoordinatorErrors);
+      setMemberErrors(newMemberErrors);
+      if (members.length === 0) setRosterImportError(messages.roster.noMembers);
+
+      addProblem('applicant', 'affiliation', affiliationError);
+      Object.entries(newCoordinatorErrors).forEach(([field, message]) => addProblem('applicant', `coordinator-${field}`, message));
+      if (members.length === 0) addProblem('applicant', 'roster', messages.roster.noMembers);
+      members.forEach((member, index) => Object.entries(newMemberErrors[member.id]).forEach(([key, message]) => {
+        const label = key === 'profileImage' ? messages.roster.photo : messages.fieldLabels[key as keyof FormData];
+        addProblem('applicant', `${member.id}-${key}`, message && `${messages.roster.cellLabel(index + 1, label)}: ${message}`);
+      }));
+      addProblem('consent', 'consents', consentError);
+    } else {
+      const allErrors: FormErrors = { ...validateForm(formData, context), consents: consentError };
+      if (PHONE_VERIFICATION_ENDPOINT && needsGuardian && !allErrors.guardianPhone && !isGuardianPhoneVerified) {
+        allErrors.guardianPhone = messages.validation.guardianPhoneUnverified;
+      }
+      const newErrors = Object.fromEntries(Object.entries(allErrors).filter(([key, message]) => message && targets.includes(stepOfError(key as FormErrorKey))));
+      setErrors(prev => ({
+        ...Object.fromEntries(Object.entries(prev).filter(([key]) => !targets.includes(stepOfError(key as FormErrorKey)))),
+        ...newErrors,
+      }));
+      Object.entries(newErrors).forEach(([key, message]) => addProblem(stepOfError(key as FormErrorKey), key, message));
+      if (targets.includes('guardian')) {
+        const newGuardianErrors = validateGuardians(additionalGuardians, formData, context);
+        setGuardianErrors(newGuardianErrors);
+        // Additional guardians are listed after the primary guardian's fields.
+        additionalGuardians.forEach(guardian => Object.entries(newGuardianErrors[guardian.id] ?? {}).forEach(([field, message]) => {
+          addProblem('guardian', `${guardian.id}-${field}`, message && `${messages.form.additionalGuardians}: ${message}`);
+        }));
+      }
+    }
+
+    const failedStep = targets.find(target => problems[target]);
+    setErrorSummary(failedStep ? problems[failedStep] ?? [] : []);
+    if (failedStep) showStep(failedStep, problems[failedStep]?.[0].id);
+    return !failedStep;
   };
 
-  const validateForm = (): boolean => {
-    const newErrors: Partial<Record<keyof FormData | 'profileImage', string>> = {};
-    if (!profileImage) newErrors.profileImage = '프로필 사진을 업로드해주세요.';
-    if (!formData.affiliation) newErrors.affiliation = '소속 단체명을 선택해주세요.';
-    if (!formData.nameKorean) newErrors.nameKorean = '한글 성명을 입력해주세요.';
-    if (!formData.nameEnglish) newErrors.nameEnglish = '영문 성명을 입력해주세요.';
-    if (!formData.membershipType) newErrors.membershipType = '가입 구분을 선택해주세요.';
-    if (!formData.gender) newErrors.gender = '성별을 선택해주세요.';
-    if (!formData.email) newErrors.email = '이메일 주소를 입력해주세요.';
-    if (!formData.phoneApplicant) newErrors.phoneApplicant = '신청자 핸드폰 번호를 입력해주세요.';
-    if (!formData.guardianRelationship) newErrors.guardianRelationship = '보호자와의 관계를 선택해주세요.';
-    if (!formData.guardianName) newErrors.guardianName = '보호자 성명을 입력해주세요.';
-    if (!formData.guardianPhone) newErrors.guardianPhone = '보호자 핸드폰 번호를 입력해주세요.';
-    if (!formData.address) newErrors.address = '전체 주소를 입력해주세요.';
-    if (!formData.signature) newErrors.signature = '서명을 입력해주세요.';
-    if (!formData.dateOfBirth) newErrors.dateOfBirth = '생년월일을 입력해주세요.';
+  const handleNext = () => {
+    if (validateSteps([step])) showStep(steps[stepIndex + 1]);
+  };
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  // Earlier steps can always be revisited; skipping ahead requires every step before the target to be valid.
+  const handleStepSelect = (target: WizardStep) => {
+    const targetIndex = steps.indexOf(target);
+    if (targetIndex > stepIndex && !validateSteps(steps.slice(0, targetIndex))) return;
+    setErrorSummary([]);
+    showStep(target);
   };
 
+  // Errors that say what went wrong are shown as they are; anything else gets the generic message.
+  const exportErrorMessage = (error: unknown) =>
+    error instanceof PayloadError || error instanceof FontLoadError ? error.message : messages.alerts.exportFailed;
+
+  const exportGroupArchive = async (groupMembers: GroupMember[]) => {
+    const formattedDate = today.toLocaleDateString('ko-KR').replace(/\./g, '').replace(/ /g, '');
+    const fonts = await fetchPdfFonts(language);
+    const archive = await buildGroupArchive({ affiliation: formData.affiliation, affiliationName: selectedAffiliationName, coordinator, members: groupMembers, consents: Object.values(consents), fonts, language, date: today });
+    downloadBlob(new Blob([archive], { type: 'application/zip' }), `${selectedAffiliationName}_${formattedDate}_단체입회신청서.zip`);
+  };
+
+  const handleGroupSubmit = async () => {
+    setIsExporting(true);
+    setIsDraftReady(false);
+    try {
+        await exportGroupArchive(members);
+        await deleteDraft();
+    } catch (error) {
+        console.error(error);
+        alert(exportErrorMessage(error));
+        setIsDraftReady(true);
+    } finally {
+        setIsExporting(false);
+    }
+  };
 
   const handleSubmit = async () => {
-    if (!validateForm()) {
-        const firstErrorKey = Object.keys(errors)[0] as keyof typeof errors;
-        const firstErrorElement = document.getElementById(firstErrorKey);
-        if(firstErrorElement) {
-            firstErrorElement.focus({ preventScroll: true });
-            firstErrorElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
-        }
-        return;
+    if (!validateSteps(steps.slice(0, -1))) return;
+    if (isGroup) {
+      await (SUBMISSION_ENDPOINT ? submitGroupToServer() : handleGroupSubmit());
+      return;
     }
-    if (!pledgeChecked) {
-        alert("서약서에 동의해주셔야 제출이 가능합니다.");
+    if (SUBMISSION_ENDPOINT) {
+        await submitToServer();
         return;
     }
     
+    const filename = applicationFilename();
+    setIsExporting(true);
+    // Stop autosaving so a pending save can't recreate the draft once it has been cleared.
+    setIsDraftReady(false);
+    try {
+        if (exportFormat === 'pdf') {
+            await exportPdf(filename);
+        } else {
+            await exportJpeg(filename);
+        }
+        await deleteDraft();
+    } catch (error) {
+        console.error(error);
+        alert(exportErrorMessage(error));
+        setIsDraftReady(true);
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  const applicationFilename = () => {
+    const formattedDate = today.toLocaleDateString('ko-KR').replace(/\./g, '').replace(/ /g, '');
+    return `${formData.nameKorean}_${formattedDate}_입회신청서`;
+  };
+
+  const submitToServer = async () => {
+    setIsExporting(true);
+    setIsDraftReady(false);
+    try {
+        setReceipt(await submitApplication({
+            formData,
+            profileImage,
+            additionalGuardians: needsGuardian ? additionalGuardians : [],
+            consents: Object.values(consents),
+            guardianPhoneVerificationId: isGuardianPhoneVerified ? guardianPhoneVerification?.id : undefined,
+        }, language));
+        await deleteDraft();
+    } catch (error) {
+        setIsDraftReady(true);
+        if (error instanceof SubmissionError && error.errors) {
+            setErrors(error.errors);
+            setErrorSummary(Object.entries(error.errors).filter(([, message]) => message).map(([id, message]) => ({ id, message: message as string })));
+            const errorKey = firstErrorKey(error.errors);
+            if (errorKey) showStep(stepOfError(errorKey), errorKey);
+        }
+        alert((error as Error).message);
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  // Members are sent one at a time, each as its own application; the first failure stops the run.
+  const submitGroupToServer = async () => {
+    setIsExporting(true);
+    setIsDraftReady(false);
+    let submitted = 0;
+    try {
+        for (const member of members) {
+            try {
+                const memberReceipt = await submitApplication({
+                    formData: { ...member.formData, affiliation: formData.affiliation, membershipType: '단체' },
+                    profileImage: member.profileImage,
+                    additionalGuardians: [],
+                    consents: Object.values(consents),
+                    coordinator,
+                }, language);
+                submitted += 1;
+                setSubmittedMembers(prev => [...prev, { member, receipt: memberReceipt }]);
+                setMembers(prev => prev.filter(other => other.id !== member.id));
+            } catch (error) {
+                setIsDraftReady(true);
+                if (error instanceof SubmissionError && error.errors) {
+                    const fieldErrors = error.errors;
+                    setMemberErrors(prev => ({ ...prev, [member.id]: fieldErrors }));
+                    showStep('applicant');
+                }
+                alert(messages.submission.memberFailed(member.formData.nameKorean, (error as Error).message, submitted));
+                return;
+            }
+        }
+        await deleteDraft();
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  const handleDownloadGroupCopy = async () => {
+    setIsExporting(true);
+    try {
+        await exportGroupArchive(submittedMembers.map(({ member }) => member));
+    } catch (error) {
+        console.error(error);
+        alert(exportErrorMessage(error));
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  const handleDownloadCopy = async () => {
+    setIsExporting(true);
+    try {
+        await exportPdf(applicationFilename());
+    } catch (error) {
+        console.error(error);
+        alert(exportErrorMessage(error));
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  const handleStartNew = () => {
+    setFormData({ ...INITIAL_FORM_DATA, affiliation: lockedAffiliation });
+    setIsGradeOverrideOpen(false);
+    setProfileImage(null);
+    setAdditionalGuardians([]);
+    setGuardianErrors({});
+    setConsents({});
+    setGuardianPhoneVerification(null);
+    setErrors({});
+    setErrorSummary([]);
+    setStep('applicant');
+    setReceipt(null);
+    setCoordinator(INITIAL_COORDINATOR);
+    setMemberErrors({});
+    setSubmittedMembers([]);
+    setIsDraftReady(true);
+  };
+
+  const exportPdf = async (filename: string) => {
+    const fonts = await fetchPdfFonts(language);
+    const bytes = await buildApplicationPdf({ formData, profileImage, additionalGuardians, consents: Object.values(consents), fonts, affiliationName: selectedAffiliationName, language, date: today });
+    downloadBlob(new Blob([bytes], { type: 'application/pdf' }), `${filename}.pdf`);
+  };
+
+  const exportJpeg = async (filename: string) => {
     const element = formRef.current;
     if (element) {
         const elementsToHide = element.querySelectorAll('.print-ignore');
@@ -168,6 +731,9 @@ const App: React.FC = () => {
 
         const a4Width = 1240;
         const a4Height = 1754;
+        const { token, qrToken } = await signPayload(createApplicationPayload({
+            formData, affiliationName: selectedAffiliationName, additionalGuardians: needsGuardian ? additionalGuardians : [], consents: Object.values(consents), date: today,
+        }), language);
         
         const a4Canvas = document.createElement('canvas');
         a4Canvas.width = a4Width;
@@ -178,7 +744,7 @@ const App: React.FC = () => {
             a4Ctx.fillStyle = 'white';
             a4Ctx.fillRect(0, 0, a4Width, a4Height);
 
-            const title = "국제청소년로봇연맹 로봇봉사단 입회신청서";
+            const title = messages.applicationTitle;
             a4Ctx.fillStyle = 'black';
             a4Ctx.font = 'bold 48px Poppins';
             a4Ctx.textAlign = 'center';
@@ -187,7 +753,7 @@ const App: React.FC = () => {
             const contentMargin = 50;
             const contentStartY = 160;
             const availableWidth = a4Width - (contentMargin * 2);
-            const availableHeight = a4Height - contentStartY - contentMargin;
+            const availableHeight = a4Height - contentStartY - contentMargin - JPEG_QR_PIXELS;
             const ratio = Math.min(availableWidth / canvas.width, availableHeight / canvas.height);
             const newWidth = canvas.width * ratio;
             const newHeight = canvas.height * ratio;
@@ -195,244 +761,480 @@ const App: React.FC = () => {
             const y = contentStartY + (availableHeight - newHeight) / 2;
             
             a4Ctx.drawImage(canvas, x, y, newWidth, newHeight);
+
+            // Whole pixels per module keep the code sharp enough to scan from a print.
+            const qrCode = payloadQrCode(qrToken);
+            const module = Math.max(2, Math.floor(JPEG_QR_PIXELS / qrCode.size));
+            const qrX = a4Width - contentMargin - qrCode.size * module;
+            const qrY = a4Height - contentMargin - qrCode.size * module;
+            a4Ctx.fillStyle = 'black';
+            qrCode.runs.forEach(({ row, start, length }) => a4Ctx.fillRect(qrX + start * module, qrY + row * module, length * module, module));
+            a4Ctx.font = '20px Poppins';
+            a4Ctx.textAlign = 'right';
+            a4Ctx.fillStyle = '#6b7280';
+            a4Ctx.fillText(messages.pdf.payloadCaption, qrX - 20, a4Height - contentMargin);
         }
 
-        const link = document.createElement('a');
-        const formattedDate = today.toLocaleDateString('ko-KR').replace(/\./g, '').replace(/ /g, '');
-        link.download = `${formData.nameKorean}_${formattedDate}_입회신청서.jpeg`;
-        link.href = a4Canvas.toDataURL('image/jpeg', 1.0);
-        link.click();
+        // The payload also goes into a JPEG comment so the import page can read it without scanning.
+        const jpeg = await new Promise<Blob | null>(resolve => a4Canvas.toBlob(resolve, 'image/jpeg', 1.0));
+        if (!jpeg) throw new Error(messages.alerts.jpegFailed);
+        const bytes = embedPayloadInJpeg(new Uint8Array(await jpeg.arrayBuffer()), token, messages.payload);
+        downloadBlob(new Blob([bytes], { type: 'image/jpeg' }), `${filename}.jpeg`);
     }
   };
 
   const todayDate = new Date().toISOString().split('T')[0];
 
+  const affiliationField = (
+    <div className="sm:col-span-2">
+        <label htmlFor="affiliation" className="block text-sm font-semibold text-gray-700 mb-1.5">{messages.fieldLabels.affiliation}</label>
+        <select id="affiliation" name="affiliation" value={formData.affiliation} onChange={handleChange} onBlur={handleBlur} disabled={Boolean(lockedAffiliation)} {...errorAttributes('affiliation', errors.affiliation)} className={`w-full h-10 px-3 border rounded-md shadow-sm transition duration-150 ease-in-out focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${formData.affiliation ? 'bg-slate-200 font-medium text-gray-900' : 'bg-slate-50 text-gray-500'} ${lockedAffiliation ? 'cursor-not-allowed' : ''} ${errors.affiliation ? 'border-red-500 ring-red-500' : 'border-gray-300'}`}>
+            <option value="" disabled>{messages.form.affiliationPlaceholder}</option>
+            {affiliations.filter(affiliation => affiliation.active).map(({ id, name }) => (
+                <option key={id} value={id}>{name}</option>
+            ))}
+        </select>
+        {lockedAffiliation && <p className="mt-1.5 text-xs text-gray-500 print-ignore">{messages.form.affiliationLocked}</p>}
+        {errors.affiliation && <p id={errorId('affiliation')} className="mt-1.5 text-xs text-red-600">{errors.affiliation}</p>}
+    </div>
+  );
+
+  const membershipTypeField = (
+    <fieldset>
+        <legend className="block text-sm font-semibold text-gray-700 mb-2">{messages.fieldLabels.membershipType}</legend>
+        <div className="flex items-center space-x-6">
+            {['단체', '개인'].map(type => (
+                <label key={type} className="flex items-center space-x-2 cursor-pointer">
+                    <input type="radio" name="membershipType" value={type} checked={formData.membershipType === type} onChange={handleChange} onBlur={handleBlur} {...errorAttributes('membershipType', errors.membershipType)} className="appearance-none h-4 w-4 rounded-sm bg-white border-2 border-gray-300 checked:bg-indigo-600 checked:border-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"/>
+                    <span className="font-medium text-gray-800">{optionLabel(messages, 'membershipType', type)}</span>
+                </label>
+            ))}
+        </div>
+        {errors.membershipType && <p id={errorId('membershipType')} className="mt-1.5 text-xs text-red-600">{errors.membershipType}</p>}
+    </fieldset>
+  );
+
+  if (receipt) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4 sm:p-6 lg:p-8">
+        <div className="w-full max-w-xl bg-white rounded-xl shadow-2xl p-8 md:p-10 text-center space-y-6 animate-fade-in-scale">
+            <h1 className="text-2xl sm:text-3xl font-extrabold text-slate-800">{messages.receipt.title}</h1>
+            <p className="text-gray-600">{messages.receipt.delivered(formData.nameKorean)}</p>
+            <div className="bg-slate-100 rounded-lg p-5 space-y-1">
+                <p className="text-sm font-semibold text-gray-500">{messages.receipt.number}</p>
+                <p className="text-2xl font-bold text-indigo-600 tracking-wider">{receipt.applicationNumber}</p>
+                <p className="text-sm text-gray-500">{messages.receipt.receivedAt(new Date(receipt.submittedAt).toLocaleString(messages.locale))}</p>
+            </div>
+            <p className="text-sm text-gray-500">{messages.receipt.contactNote}</p>
+            <div className="flex flex-col sm:flex-row justify-center gap-3">
+                <button type="button" onClick={handleDownloadCopy} disabled={isExporting} className="px-6 py-2 bg-white text-gray-700 font-semibold border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors disabled:opacity-50">{messages.receipt.downloadCopy}</button>
+                <button type="button" onClick={handleStartNew} className="px-6 py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">{messages.receipt.startNew}</button>
+            </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isGroup && submittedMembers.length > 0 && members.length === 0) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4 sm:p-6 lg:p-8">
+        <div className="w-full max-w-xl bg-white rounded-xl shadow-2xl p-8 md:p-10 text-center space-y-6 animate-fade-in-scale">
+            <h1 className="text-2xl sm:text-3xl font-extrabold text-slate-800">{messages.receipt.title}</h1>
+            <p className="text-gray-600">{messages.receipt.groupDelivered(submittedMembers.length)}</p>
+            <table className="w-full bg-slate-100 rounded-lg text-sm">
+                <thead>
+                    <tr className="text-gray-500">
+                        <th className="px-4 py-2 text-left font-semibold">{messages.fieldLabels.nameKorean}</th>
+                        <th className="px-4 py-2 text-right font-semibold">{messages.receipt.number}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {submittedMembers.map(({ member, receipt: memberReceipt }) => (
+                        <tr key={member.id}>
+                            <td className="px-4 py-1 text-left text-gray-800">{member.formData.nameKorean}</td>
+                            <td className="px-4 py-1 text-right font-bold text-indigo-600 tracking-wider">{memberReceipt.applicationNumber}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="text-sm text-gray-500">{messages.receipt.contactNote}</p>
+            <div className="flex flex-col sm:flex-row justify-center gap-3">
+                <button type="button" onClick={handleDownloadGroupCopy} disabled={isExporting} className="px-6 py-2 bg-white text-gray-700 font-semibold border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors disabled:opacity-50">{messages.receipt.downloadGroupCopy}</button>
+                <button type="button" onClick={handleStartNew} className="px-6 py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">{messages.receipt.startNew}</button>
+            </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4 sm:p-6 lg:p-8">
       <div className="w-full max-w-4xl">
         <div ref={formRef} className="bg-white rounded-xl shadow-2xl p-8 md:p-10 space-y-8">
           <div className="text-center pb-4 print-ignore">
+              <div className="flex justify-end mb-2" role="group" aria-label={messages.form.languageLabel}>
+                  {LANGUAGES.map(code => (
+                      <button key={code} type="button" lang={code} onClick={() => handleLanguageChange(code)} aria-pressed={language === code} className={`px-3 py-1 text-xs font-semibold border first:rounded-l-md last:rounded-r-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${language === code ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-600 hover:bg-slate-100'}`}>
+                          {MESSAGES[code].languageName}
+                      </button>
+                  ))}
+              </div>
               <h1 className="text-3xl sm:text-4xl font-extrabold text-slate-800 bg-clip-text text-transparent bg-gradient-to-r from-indigo-600 to-blue-500">
-                국제청소년로봇연맹 로봇봉사단 입회신청서
+                {messages.applicationTitle}
               </h1>
           </div>
           
+          {pendingDraft && (
+            <div className="print-ignore flex flex-col sm:flex-row items-center justify-between gap-3 p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
+                <p className="text-sm text-indigo-900">
+                    <span className="font-semibold">{messages.draft.found}</span> {messages.draft.savedAt(new Date(pendingDraft.savedAt).toLocaleString(messages.locale))}
+                </p>
+                <div className="flex gap-2 shrink-0">
+                    <button type="button" onClick={handleRestoreDraft} className="px-4 py-1.5 bg-indigo-600 text-white text-sm font-bold rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">{messages.draft.restore}</button>
+                    <button type="button" onClick={handleDiscardDraft} className="px-4 py-1.5 bg-white text-gray-700 text-sm font-semibold border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">{messages.draft.discard}</button>
+                </div>
+            </div>
+          )}
+
+          {/* Progress */}
+          <nav aria-label={messages.wizard.progress(stepIndex + 1, steps.length)} className="print-ignore">
+            <ol className="flex items-center">
+              {steps.map((item, index) => (
+                <li key={item} className={`flex items-center ${index < steps.length - 1 ? 'flex-1' : ''}`}>
+                  <button type="button" onClick={() => handleStepSelect(item)} aria-current={item === step ? 'step' : undefined} className="flex items-center gap-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                    <span className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-sm font-bold ${index < stepIndex ? 'bg-indigo-600 text-white' : index === stepIndex ? 'border-2 border-indigo-600 bg-white text-indigo-600' : 'border-2 border-gray-300 bg-white text-gray-400'}`}>{index + 1}</span>
+                    <span className={`hidden md:inline text-sm font-semibold whitespace-nowrap ${index <= stepIndex ? 'text-gray-800' : 'text-gray-400'}`}>{messages.wizard.steps[item]}</span>
+                  </button>
+                  {index < steps.length - 1 && <span className={`flex-1 h-0.5 mx-3 ${index < stepIndex ? 'bg-indigo-600' : 'bg-gray-200'}`} />}
+                </li>
+              ))}
+            </ol>
+            <p className="mt-3 text-center text-xs font-semibold text-gray-500 md:hidden">{messages.wizard.progress(stepIndex + 1, steps.length)} · {messages.wizard.steps[step]}</p>
+          </nav>
+
+          {errorSummary.length > 0 && (
+            <ErrorSummary title={messages.wizard.errorSummary(errorSummary.length)} items={errorSummary} onSelect={focusField} />
+          )}
+
+          {step === 'applicant' && (isGroup ? (
+          <>
+          {/* Group Info Section */}
+          <fieldset className="space-y-5">
+            <legend className="text-xl font-bold text-slate-700 w-full pb-3 border-b-2 border-slate-200 tracking-wide">{messages.form.groupSection}</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-5">
+                {affiliationField}
+                {membershipTypeField}
+                {COORDINATOR_FIELDS.map(({ field, label, type }) => (
+                    <FormField key={field} id={`coordinator-${field}`} label={messages.form[label]} type={type} value={coordinator[field]} onChange={handleCoordinatorChange(field)} error={coordinatorErrors[field]} />
+                ))}
+            </div>
+          </fieldset>
+
+          {/* Group Roster Section */}
+          <fieldset id="roster" className="space-y-5">
+            <legend className="text-xl font-bold text-slate-700 w-full pb-3 border-b-2 border-slate-200 tracking-wide">{messages.form.rosterSection}</legend>
+            <GroupRoster
+                members={members}
+                errors={memberErrors}
+                importError={rosterImportError}
+                messages={messages}
+                onMemberChange={handleMemberChange}
+                onAddMember={() => { setMembers(prev => [...prev, createMember()]); setRosterImportError(''); }}
+                onRemoveMember={handleRemoveMember}
+                onPhotoSelect={handleMemberPhotoSelect}
+                onImport={handleRosterImport}
+            />
+          </fieldset>
+          </>
+          ) : (
+          <>
           {/* Applicant Info Section */}
           <fieldset className="space-y-5">
-            <legend className="text-xl font-bold text-slate-700 w-full pb-3 border-b-2 border-slate-200 tracking-wide">가입자 정보</legend>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-x-8 gap-y-5">
-              <div className="md:col-span-2 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-5">
-                  <div className="sm:col-span-2">
-                      <label htmlFor="affiliation" className="block text-sm font-semibold text-gray-700 mb-1.5">소속 단체명</label>
-                      <select id="affiliation" name="affiliation" value={formData.affiliation} onChange={handleChange} className={`w-full h-10 px-3 border rounded-md shadow-sm transition duration-150 ease-in-out focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${formData.affiliation ? 'bg-slate-200 font-medium text-gray-900' : 'bg-slate-50 text-gray-500'} ${errors.affiliation ? 'border-red-500 ring-red-500' : 'border-gray-300'}`}>
-                          <option value="" disabled>소속 단체명을 선택하세요</option>
-                          {AFFILIATIONS.map((name, index) => (
-                              <option key={index} value={name}>{name}</option>
-                          ))}
-                      </select>
-                      {errors.affiliation && <p className="mt-1.5 text-xs text-red-600">{errors.affiliation}</p>}
-                  </div>
-                  <FormField id="nameKorean" label="성명 (한글)" value={formData.nameKorean} onChange={handleChange} error={errors.nameKorean} />
-                  <div>
-                    <FormField id="nameEnglish" label="성명 (영문)" value={formData.nameEnglish} onChange={handleEnglishNameChange} />
-                    {englishNameWarning && <p className="mt-1.5 text-xs text-red-600">{englishNameWarning}</p>}
-                    {errors.nameEnglish && !englishNameWarning && <p className="mt-1.5 text-xs text-red-600">{errors.nameEnglish}</p>}
-                  </div>
-                  <div className="sm:col-span-2">
-                      <div className="grid grid-cols-3 gap-4 items-start">
-                          <div className="col-span-2">
-                              <label htmlFor="dateOfBirth" className="block text-sm font-semibold text-gray-700 mb-1.5">생년월일</label>
-                              <input 
-                                  type="date" 
-                                  id="dateOfBirth" 
-                                  name="dateOfBirth" 
-                                  value={formData.dateOfBirth} 
-                                  onChange={handleChange} 
-                                  max={todayDate} 
-                                  className={`w-full h-10 px-3 leading-10 border rounded-md shadow-sm transition duration-150 ease-in-out text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${formData.dateOfBirth ? 'bg-slate-200 font-medium' : 'bg-slate-50'} ${errors.dateOfBirth ? 'border-red-500 ring-red-500' : 'border-gray-300'}`} 
-                                  style={{ colorScheme: 'light' }}
-                              />
-                              {errors.dateOfBirth && <p className="mt-1.5 text-xs text-red-600">{errors.dateOfBirth}</p>}
-                          </div>
-                          <div className="col-span-1">
-                              <label htmlFor="grade" className="block text-sm font-semibold text-gray-700 mb-1.5">학년</label>
-                              <input
-                                  type="text"
-                                  id="grade"
-                                  name="grade"
-                                  value={calculateGrade(formData.dateOfBirth)}
-                                  readOnly
-                                  placeholder="-"
-                                  className="w-full h-10 px-3 leading-10 border rounded-md shadow-sm bg-gray-200 text-gray-700 cursor-not-allowed text-center font-semibold"
-                              />
-                          </div>
-                      </div>
-                  </div>
-              </div>
-              <div className="flex flex-col items-center justify-start space-y-2 pt-1">
-                  <label className="block text-sm font-semibold text-gray-700 mb-1.5 w-full text-center">프로필 사진</label>
-                  <div onClick={() => fileInputRef.current?.click()} className={`w-48 h-64 border-2 border-dashed rounded-lg flex flex-col justify-center items-center cursor-pointer transition-colors ${profileImage ? 'border-indigo-500' : 'border-gray-300 hover:border-indigo-500'} ${errors.profileImage ? 'border-red-500' : ''}`}>
-                      {profileImage ? (
-                          <img src={profileImage} alt="Profile" className="w-full h-full object-cover rounded-md"/>
-                      ) : (
-                          <div className="text-center text-gray-500 p-4">
-                              <svg className="mx-auto h-12 w-12 text-gray-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.437 4h3.126a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
-                              <p className="mt-2 text-sm">클릭하여 사진 업로드</p>
-                          </div>
-                      )}
-                  </div>
-                  {errors.profileImage && <p className="mt-1.5 text-xs text-red-600 text-center">{errors.profileImage}</p>}
-                  <input type="file" ref={fileInputRef} onChange={handleImageUpload} accept="image/*" className="hidden" />
-              </div>
+            <legend className="text-xl font-bold text-slate-700 w-full pb-3 border-b-2 border-slate-200 tracking-wide">{messages.form.applicantSection}</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-5">
+                {affiliationField}
+                <FormField id="nameKorean" label={messages.fieldLabels.nameKorean} value={formData.nameKorean} onChange={handleChange} onBlur={handleBlur} error={errors.nameKorean} />
+                <FormField id="nameEnglish" label={messages.fieldLabels.nameEnglish} value={formData.nameEnglish} onChange={handleEnglishNameChange} onBlur={handleBlur} error={englishNameWarning || errors.nameEnglish} />
+                <div className="sm:col-span-2">
+                    <div className="grid grid-cols-3 gap-4 items-start">
+                        <div className="col-span-2">
+                            <label htmlFor="dateOfBirth" className="block text-sm font-semibold text-gray-700 mb-1.5">{messages.fieldLabels.dateOfBirth}</label>
+                            <input 
+                                type="date" 
+                                id="dateOfBirth" 
+                                name="dateOfBirth" 
+                                value={formData.dateOfBirth} 
+                                onChange={handleChange} 
+                                onBlur={handleBlur}
+                                max={todayDate} 
+                                {...errorAttributes('dateOfBirth', errors.dateOfBirth)}
+                                className={`w-full h-10 px-3 leading-10 border rounded-md shadow-sm transition duration-150 ease-in-out text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${formData.dateOfBirth ? 'bg-slate-200 font-medium' : 'bg-slate-50'} ${errors.dateOfBirth ? 'border-red-500 ring-red-500' : 'border-gray-300'}`} 
+                                style={{ colorScheme: 'light' }}
+                            />
+                            {errors.dateOfBirth && <p id={errorId('dateOfBirth')} className="mt-1.5 text-xs text-red-600">{errors.dateOfBirth}</p>}
+                        </div>
+                        <div className="col-span-1">
+                            <label htmlFor="grade" className="block text-sm font-semibold text-gray-700 mb-1.5">{messages.form.grade}</label>
+                            <input
+                                type="text"
+                                id="grade"
+                                name="grade"
+                                value={messages.gradeLabel(effectiveGrade(formData))}
+                                readOnly
+                                placeholder="-"
+                                className="w-full h-10 px-3 leading-10 border rounded-md shadow-sm bg-gray-200 text-gray-700 cursor-not-allowed text-center font-semibold"
+                            />
+                        </div>
+                    </div>
+                    <label className="mt-3 flex items-center space-x-2 cursor-pointer">
+                        <input type="checkbox" checked={isGradeOverrideOpen} onChange={handleGradeOverrideToggle} className="appearance-none h-4 w-4 rounded-sm bg-white border-2 border-gray-300 checked:bg-indigo-600 checked:border-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500" />
+                        <span className="text-sm text-gray-600">{messages.form.gradeOverrideToggle}</span>
+                    </label>
+                    {isGradeOverrideOpen && (
+                        <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-4 items-start">
+                            <div>
+                                <label htmlFor="gradeOverride" className="block text-sm font-semibold text-gray-700 mb-1.5">{messages.fieldLabels.gradeOverride}</label>
+                                <select id="gradeOverride" name="gradeOverride" value={formData.gradeOverride} onChange={handleChange} onBlur={handleBlur} {...errorAttributes('gradeOverride', errors.gradeOverride)} className={`w-full h-10 px-3 border rounded-md shadow-sm transition duration-150 ease-in-out focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${formData.gradeOverride ? 'bg-slate-200 font-medium text-gray-900' : 'bg-slate-50 text-gray-500'} ${errors.gradeOverride ? 'border-red-500 ring-red-500' : 'border-gray-300'}`}>
+                                    <option value="">{messages.form.gradeOverridePlaceholder}</option>
+                                    {GRADE_LABELS.map(grade => <option key={grade} value={grade}>{messages.gradeLabel(grade)}</option>)}
+                                </select>
+                                {formData.dateOfBirth && <p className="mt-1.5 text-xs text-gray-500">{messages.form.gradeComputed(messages.gradeLabel(calculateGrade(formData.dateOfBirth)))}</p>}
+                                {errors.gradeOverride && <p id={errorId('gradeOverride')} className="mt-1.5 text-xs text-red-600">{errors.gradeOverride}</p>}
+                            </div>
+                            <div className="sm:col-span-2">
+                                <FormField id="gradeOverrideReason" label={messages.fieldLabels.gradeOverrideReason} placeholder={messages.form.gradeOverrideReasonPlaceholder} value={formData.gradeOverrideReason} onChange={handleChange} onBlur={handleBlur} error={errors.gradeOverrideReason} />
+                            </div>
+                        </div>
+                    )}
+                </div>
             </div>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-5 pt-4">
-                  <div>
-                      <span className="block text-sm font-semibold text-gray-700 mb-2">가입 구분</span>
-                      <div className="flex items-center space-x-6">
-                          {['단체', '개인'].map(type => (
-                              <label key={type} className="flex items-center space-x-2 cursor-pointer">
-                                  <input type="radio" name="membershipType" value={type} checked={formData.membershipType === type} onChange={handleChange} className="appearance-none h-4 w-4 rounded-sm bg-white border-2 border-gray-300 checked:bg-indigo-600 checked:border-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"/>
-                                  <span className="font-medium text-gray-800">{type}</span>
-                              </label>
-                          ))}
-                      </div>
-                      {errors.membershipType && <p className="mt-1.5 text-xs text-red-600">{errors.membershipType}</p>}
-                  </div>
-                  <div>
-                      <span className="block text-sm font-semibold text-gray-700 mb-2">성별</span>
+                  {membershipTypeField}
+                  <fieldset>
+                      <legend className="block text-sm font-semibold text-gray-700 mb-2">{messages.fieldLabels.gender}</legend>
                       <div className="flex items-center space-x-6">
                           {['남', '여'].map(gender => (
                               <label key={gender} className="flex items-center space-x-2 cursor-pointer">
-                                  <input type="radio" name="gender" value={gender} checked={formData.gender === gender} onChange={handleChange} className="appearance-none h-4 w-4 rounded-sm bg-white border-2 border-gray-300 checked:bg-indigo-600 checked:border-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"/>
-                                  <span className="font-medium text-gray-800">{gender}</span>
+                                  <input type="radio" name="gender" value={gender} checked={formData.gender === gender} onChange={handleChange} onBlur={handleBlur} {...errorAttributes('gender', errors.gender)} className="appearance-none h-4 w-4 rounded-sm bg-white border-2 border-gray-300 checked:bg-indigo-600 checked:border-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"/>
+                                  <span className="font-medium text-gray-800">{optionLabel(messages, 'gender', gender)}</span>
                               </label>
                           ))}
                       </div>
-                      {errors.gender && <p className="mt-1.5 text-xs text-red-600">{errors.gender}</p>}
+                      {errors.gender && <p id={errorId('gender')} className="mt-1.5 text-xs text-red-600">{errors.gender}</p>}
+                  </fieldset>
+                  <FormField id="email" label={messages.fieldLabels.email} type="email" value={formData.email} onChange={handleChange} onBlur={handleBlur} error={errors.email} />
+                  <FormField id="phoneApplicant" label={messages.fieldLabels.phoneApplicant} type="tel" value={formData.phoneApplicant} onChange={handleChange} onBlur={handleBlur} error={errors.phoneApplicant} />
+                  <div className="sm:col-span-2 flex items-start gap-2">
+                      <div className="w-40">
+                          <FormField id="postalCode" label={messages.fieldLabels.postalCode} value={formData.postalCode} onChange={handleChange} onBlur={handleBlur} error={errors.postalCode} />
+                      </div>
+                      {/* Offset by the label height so the button lines up with the input. */}
+                      <button type="button" onClick={() => setIsAddressSearchOpen(true)} className="mt-[1.625rem] h-10 px-4 text-sm font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 print-ignore">{messages.form.searchAddress}</button>
                   </div>
-                  <FormField id="email" label="E-mail" type="email" value={formData.email} onChange={handleChange} error={errors.email} />
-                  <FormField id="phoneApplicant" label="핸드폰 (신청자)" type="tel" value={formData.phoneApplicant} onChange={handleChange} error={errors.phoneApplicant} />
+                  <FormField id="roadAddress" label={messages.fieldLabels.roadAddress} value={formData.roadAddress} onChange={handleChange} onBlur={handleBlur} error={errors.roadAddress} />
+                  <FormField id="jibunAddress" label={messages.fieldLabels.jibunAddress} value={formData.jibunAddress} onChange={handleChange} onBlur={handleBlur} error={errors.jibunAddress} />
                   <div className="sm:col-span-2">
-                      <FormField id="address" label="전체 주소 (상세주소 포함)" value={formData.address} onChange={handleChange} error={errors.address}/>
+                      <FormField id="addressDetail" label={messages.fieldLabels.addressDetail} placeholder={messages.form.addressDetailPlaceholder} value={formData.addressDetail} onChange={handleChange} onBlur={handleBlur} error={errors.addressDetail} />
                   </div>
               </div>
           </fieldset>
-          
+          </>
+          ))}
+
+          {step === 'guardian' && (
+          <>
           {/* Guardian Info Section */}
           <fieldset className="space-y-5">
-              <legend className="text-xl font-bold text-slate-700 w-full pb-3 border-b-2 border-slate-200 tracking-wide">보호자 정보</legend>
+              <legend className="text-xl font-bold text-slate-700 w-full pb-3 border-b-2 border-slate-200 tracking-wide">{messages.form.guardianSection}</legend>
+              {needsGuardian ? (
+              <>
               <div className="grid grid-cols-1 sm:grid-cols-3 gap-x-6 gap-y-5">
                   <div>
-                      <label htmlFor="guardianRelationship" className="block text-sm font-semibold text-gray-700 mb-1.5">입회자와의 관계</label>
-                      <select id="guardianRelationship" name="guardianRelationship" value={formData.guardianRelationship} onChange={handleChange} className={`w-full h-10 px-3 border rounded-md shadow-sm transition duration-150 ease-in-out focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${formData.guardianRelationship ? 'bg-slate-200 font-medium text-gray-900' : 'bg-slate-50 text-gray-500'} ${errors.guardianRelationship ? 'border-red-500 ring-red-500' : 'border-gray-300'}`}>
-                          <option value="" disabled>관계를 선택하세요</option>
-                          <option value="부">부 (Father)</option>
-                          <option value="모">모 (Mother)</option>
+                      <label htmlFor="guardianRelationship" className="block text-sm font-semibold text-gray-700 mb-1.5">{messages.fieldLabels.guardianRelationship}</label>
+                      <select id="guardianRelationship" name="guardianRelationship" value={formData.guardianRelationship} onChange={handleChange} onBlur={handleBlur} {...errorAttributes('guardianRelationship', errors.guardianRelationship)} className={`w-full h-10 px-3 border rounded-md shadow-sm transition duration-150 ease-in-out focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${formData.guardianRelationship ? 'bg-slate-200 font-medium text-gray-900' : 'bg-slate-50 text-gray-500'} ${errors.guardianRelationship ? 'border-red-500 ring-red-500' : 'border-gray-300'}`}>
+                          <option value="" disabled>{messages.form.relationshipPlaceholder}</option>
+                          {GUARDIAN_RELATIONSHIPS.map(relationship => (
+                              <option key={relationship} value={relationship}>{optionLabel(messages, 'guardianRelationship', relationship)}</option>
+                          ))}
                       </select>
-                      {errors.guardianRelationship && <p className="mt-1.5 text-xs text-red-600">{errors.guardianRelationship}</p>}
+                      {errors.guardianRelationship && <p id={errorId('guardianRelationship')} className="mt-1.5 text-xs text-red-600">{errors.guardianRelationship}</p>}
                   </div>
-                  <FormField id="guardianName" label="보호자 성명" value={formData.guardianName} onChange={handleChange} error={errors.guardianName} />
-                  <FormField id="guardianPhone" label="보호자 휴대전화" type="tel" value={formData.guardianPhone} onChange={handleChange} error={errors.guardianPhone} />
+                  <FormField id="guardianName" label={messages.fieldLabels.guardianName} value={formData.guardianName} onChange={handleChange} onBlur={handleBlur} error={errors.guardianName} />
+                  <FormField id="guardianPhone" label={messages.fieldLabels.guardianPhone} type="tel" value={formData.guardianPhone} onChange={handleChange} onBlur={handleBlur} error={errors.guardianPhone} />
+                  {formData.guardianRelationship === '기타' && (
+                      <FormField id="guardianRelationshipOther" label={messages.fieldLabels.guardianRelationshipOther} placeholder={messages.form.relationshipOtherPlaceholder} value={formData.guardianRelationshipOther} onChange={handleChange} onBlur={handleBlur} error={errors.guardianRelationshipOther} />
+                  )}
               </div>
+              {PHONE_VERIFICATION_ENDPOINT && (
+                  <PhoneVerification
+                      messages={messages}
+                      language={language}
+                      phone={formData.guardianPhone}
+                      isVerified={isGuardianPhoneVerified}
+                      onVerified={(id) => {
+                          setGuardianPhoneVerification({ id, phone: formData.guardianPhone });
+                          setErrors(prev => ({ ...prev, guardianPhone: undefined }));
+                      }}
+                  />
+              )}
+              <GuardianList
+                  guardians={additionalGuardians}
+                  errors={guardianErrors}
+                  error={errors.additionalGuardians}
+                  messages={messages}
+                  onChange={handleGuardianChange}
+                  onAdd={() => setAdditionalGuardians(prev => [...prev, createGuardian()])}
+                  onRemove={handleRemoveGuardian}
+              />
+              </>
+              ) : (
+                  <p className="text-sm text-gray-500">{messages.form.guardianAdultNote}</p>
+              )}
           </fieldset>
+          </>
+          )}
 
-          {/* Agreement */}
+          {step === 'signature' && (
+          <fieldset className="space-y-5">
+            <legend className="text-xl font-bold text-slate-700 w-full pb-3 border-b-2 border-slate-200 tracking-wide">{messages.wizard.steps.signature}</legend>
+              <div className="flex flex-col items-center justify-start space-y-2">
+                  <label htmlFor="profileImage" className="block text-sm font-semibold text-gray-700 mb-1.5 w-full text-center">{messages.form.profilePhoto}</label>
+                  <button type="button" id="profileImage" onClick={() => fileInputRef.current?.click()} {...errorAttributes('profileImage', errors.profileImage)} className={`w-48 h-64 border-2 border-dashed rounded-lg flex flex-col justify-center items-center cursor-pointer transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${profileImage ? 'border-indigo-500' : 'border-gray-300 hover:border-indigo-500'} ${errors.profileImage ? 'border-red-500' : ''}`}>
+                      {profileImage ? (
+                          <img src={profileImage} alt={messages.form.profilePhoto} className="w-full h-full object-cover rounded-md"/>
+                      ) : (
+                          <div className="text-center text-gray-500 p-4">
+                              <svg className="mx-auto h-12 w-12 text-gray-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.437 4h3.126a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+                              <p className="mt-2 text-sm">{messages.form.uploadPhoto}</p>
+                          </div>
+                      )}
+                  </button>
+                  {errors.profileImage && <p id={errorId('profileImage')} className="mt-1.5 text-xs text-red-600 text-center">{errors.profileImage}</p>}
+                  <input type="file" ref={fileInputRef} onChange={handleImageUpload} accept="image/*,.heic,.heif" className="hidden" />
+              </div>
           <div className="border-t border-gray-200 pt-6 text-center space-y-5">
-              <p className="text-sm text-gray-600 bg-slate-100 p-4 rounded-lg">상기 본인은 국제청소년연맹 로봇봉사단 설립취지에 적극 동의하며, 국제청소년연맹 로봇봉사단에 입회하여 로봇봉사단 정회원으로 주어진 책임을 성실하게 이행하고, 섬김과 나눔의 로봇봉사단의 정신을 구현하기 위해 소정의 서류를 갖추어 지원합니다.</p>
+              <p className="text-sm text-gray-600 bg-slate-100 p-4 rounded-lg">{messages.declaration}</p>
               <div className="flex flex-col sm:flex-row justify-center items-center gap-4 sm:gap-8 pt-2 text-base">
                   <div className="flex items-center gap-2">
-                      <span className="font-semibold text-gray-700">가입일:</span>
+                      <span className="font-semibold text-gray-700">{messages.form.joinDate}:</span>
                       <span className="text-gray-900 font-bold">{todayString}</span>
                   </div>
-                  <div className="flex items-center gap-2 w-full max-w-xs">
-                      <label htmlFor="signature" className="font-semibold text-gray-700 whitespace-nowrap">지원자:</label>
-                      <div className="w-full">
-                          <input
-                              type="text"
-                              id="signature"
-                              name="signature"
-                              value={formData.signature}
-                              onChange={handleChange}
-                              placeholder="서명 입력"
-                              className={`w-full h-10 px-3 leading-10 border rounded-md shadow-sm transition duration-150 ease-in-out focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-center ${formData.signature ? 'bg-slate-200 font-semibold text-gray-900' : 'bg-slate-50 text-gray-900'} ${errors.signature ? 'border-red-500 ring-red-500' : 'border-gray-300'}`}
-                          />
-                      </div>
+              </div>
+              <div className={`grid grid-cols-1 gap-x-6 gap-y-5 text-left ${needsGuardian ? 'sm:grid-cols-2' : 'sm:max-w-sm sm:mx-auto w-full'}`}>
+                  <div>
+                      <label htmlFor="signature" className="block text-sm font-semibold text-gray-700 mb-1.5">{messages.fieldLabels.signature} <span className="font-normal text-gray-500">({formData.nameKorean || messages.form.nameFallback})</span></label>
+                      <SignaturePad id="signature" value={formData.signature} onChange={handleSignatureChange('signature')} error={errors.signature} messages={messages} />
+                      {errors.signature && <p id={errorId('signature')} className="mt-1.5 text-xs text-red-600">{errors.signature}</p>}
                   </div>
+                  {needsGuardian && (
+                  <div>
+                      <label htmlFor="guardianSignature" className="block text-sm font-semibold text-gray-700 mb-1.5">{messages.fieldLabels.guardianSignature} <span className="font-normal text-gray-500">({formData.guardianName || messages.form.guardianNameFallback})</span></label>
+                      <SignaturePad id="guardianSignature" value={formData.guardianSignature} onChange={handleSignatureChange('guardianSignature')} error={errors.guardianSignature} messages={messages} />
+                      {errors.guardianSignature && <p id={errorId('guardianSignature')} className="mt-1.5 text-xs text-red-600">{errors.guardianSignature}</p>}
+                  </div>
+                  )}
               </div>
-              {errors.signature && <p className="mt-1 text-xs text-red-600 sm:w-full sm:text-center">{errors.signature}</p>}
           </div>
-          
-          {/* Checkboxes */}
-          <div className="border-t border-gray-200 pt-5 space-y-4">
-              <label className="flex items-center space-x-2 cursor-pointer">
-                  <input type="checkbox" checked={benefitsChecked} onChange={(e) => { setBenefitsChecked(e.target.checked); if(e.target.checked) setIsBenefitsModalOpen(true); }} className="appearance-none h-4 w-4 rounded-sm bg-white border-2 border-gray-300 checked:bg-indigo-600 checked:border-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500" />
-                  <span className="text-gray-700 font-medium">국제청소년로봇연맹 로봇봉사단 봉사활동 혜택 안내</span>
-              </label>
-              <label className="flex items-center space-x-2 cursor-pointer">
-                  <input type="checkbox" checked={pledgeChecked} onChange={(e) => { if(e.target.checked) { setIsPledgeModalOpen(true); } else { setPledgeChecked(false); } }} className="appearance-none h-4 w-4 rounded-sm bg-white border-2 border-gray-300 checked:bg-indigo-600 checked:border-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500" />
-                  <span className="text-gray-700 font-medium">서약서를 확인하고 서명하겠습니다.</span>
+          </fieldset>
+          )}
+
+          {step === 'consent' && (
+          <fieldset id="consents" className="space-y-4">
+              <legend className="text-xl font-bold text-slate-700 w-full pb-3 mb-1 border-b-2 border-slate-200 tracking-wide">{messages.wizard.steps.consent}</legend>
+              {CONSENT_CHECKBOXES.map(({ documentId, label, marker }) => (
+              <label key={documentId} className="flex items-center space-x-2 cursor-pointer">
+                  <input type="checkbox" checked={Boolean(consents[documentId])} onChange={handleConsentChange(documentId)} {...errorAttributes('consents', errors.consents)} className="appearance-none h-4 w-4 rounded-sm bg-white border-2 border-gray-300 checked:bg-indigo-600 checked:border-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500" />
+                  <span className="text-gray-700 font-medium">{messages.form[label]}{marker && <span className="ml-1 text-xs text-gray-500">{messages.form[marker]}</span>}</span>
               </label>
-          </div>
+              ))}
+              {errors.consents && <p id={errorId('consents')} className="text-xs text-red-600">{errors.consents}</p>}
+          </fieldset>
+          )}
+
+          {step === 'review' && (
+            <ApplicationReview
+                messages={messages}
+                formData={formData}
+                affiliationName={selectedAffiliationName}
+                profileImage={profileImage}
+                additionalGuardians={additionalGuardians}
+                needsGuardian={needsGuardian}
+                consents={consents}
+                group={isGroup ? { coordinator, members } : undefined}
+                date={today}
+                onEdit={showStep}
+            />
+          )}
         </div>
-        
-        {/* Submit Button */}
-        <div className="pt-6 flex justify-end print-ignore">
-            <button onClick={handleSubmit} disabled={!pledgeChecked} className={`py-2 px-6 rounded-lg shadow-lg text-base font-bold text-white transition-all duration-300 ${!pledgeChecked ? 'bg-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-indigo-600 to-blue-500 hover:from-indigo-700 hover:to-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transform hover:-translate-y-1'}`}>
-              입회 신청서 제출
-            </button>
+
+        {/* Navigation */}
+        <div className="pt-6 flex flex-wrap justify-between items-center gap-4 print-ignore">
+            {stepIndex > 0 ? (
+                <button type="button" onClick={() => handleStepSelect(steps[stepIndex - 1])} className="py-2 px-6 bg-white text-gray-700 font-semibold border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">{messages.wizard.back}</button>
+            ) : <span />}
+            {step === 'review' ? (
+            <div className="flex flex-wrap justify-end items-center gap-6">
+                {isGroup ? (
+                    <span className="text-sm text-gray-600">{SUBMISSION_ENDPOINT ? messages.form.groupServerSubmitNote : messages.form.groupSubmitNote}</span>
+                ) : SUBMISSION_ENDPOINT ? (
+                    <span className="text-sm text-gray-600">{messages.form.serverSubmitNote}</span>
+                ) : (
+                <div className="flex items-center space-x-4">
+                    <span className="text-sm font-semibold text-gray-700">{messages.form.fileFormat}</span>
+                    {([['pdf', 'PDF'], ['jpeg', 'JPEG']] as const).map(([format, label]) => (
+                        <label key={format} className="flex items-center space-x-2 cursor-pointer">
+                            <input type="radio" name="exportFormat" value={format} checked={exportFormat === format} onChange={() => setExportFormat(format)} className="appearance-none h-4 w-4 rounded-sm bg-white border-2 border-gray-300 checked:bg-indigo-600 checked:border-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"/>
+                            <span className="font-medium text-gray-800">{label}</span>
+                        </label>
+                    ))}
+                </div>
+                )}
+                <button onClick={handleSubmit} disabled={isExporting} className={`py-2 px-6 rounded-lg shadow-lg text-base font-bold text-white transition-all duration-300 ${isExporting ? 'bg-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-indigo-600 to-blue-500 hover:from-indigo-700 hover:to-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transform hover:-translate-y-1'}`}>
+                  {messages.form.submit}
+                </button>
+            </div>
+            ) : (
+                <button type="button" onClick={handleNext} className="py-2 px-6 rounded-lg shadow-lg text-base font-bold text-white bg-gradient-to-r from-indigo-600 to-blue-500 hover:from-indigo-700 hover:to-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all duration-300">{messages.wizard.next}</button>
+            )}
         </div>
       </div>
       
-        {/* Pledge Modal */}
-        {isPledgeModalOpen && (
-            <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center p-4 z-50">
-                <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl p-6 md:p-8 animate-fade-in-scale">
-                    <h2 className="text-2xl font-bold text-gray-800 text-center mb-6">서약서</h2>
-                    <div className="max-h-[60vh] overflow-y-auto pr-4 text-gray-700 space-y-4 text-sm leading-relaxed">
-                        <p>본인은 가입일로부터 국제청소년로봇연맹 로봇봉사단의 일원으로서 활동에 참여함에 있어, 봉사단의 설립 취지와 목적을 깊이 이해하고 이를 존중하며 다음과 같이 서약합니다.</p>
-                        <p>본인은 국제청소년로봇연맹 로봇봉사단의 일원으로서 봉사단의 사명과 임무를 성실히 숙지하고, 모든 활동에서 책임감 있고 적극적인 태도로 임하겠습니다.</p>
-                        <p>본인은 봉사단 파견 전까지의 모든 준비 과정에 성실히 참여하며, 열정과 헌신으로 봉사활동을 준비하여 봉사단의 명예를 지키겠습니다.</p>
-                        <p>본인은 국제청소년로봇연맹 로봇봉사단의 규약과 활동지침을 철저히 준수하며, 단체의 질서와 규율을 존중하겠습니다. 또한 개인적인 판단이나 자의적인 행동으로 인해 발생하는 모든 문제와 결과에 대하여 스스로 책임을 지겠습니다.</p>
-                        <p>본인은 봉사활동 전 과정에서 협력과 배려의 정신을 바탕으로 타 단원 및 관계자들과 원활히 소통하며, 봉사단의 발전과 긍정적인 활동 문화 조성에 기여하겠습니다.</p>
-                        <p>본인은 국제청소년로봇연맹 로봇봉사단의 일원임을 항상 자부심으로 여기며, 모든 활동을 통해 지역사회와 국제사회에 긍정적인 영향을 주고 봉사의 가치를 확산하는 데 앞장서겠습니다.</p>
-                        <p className="font-semibold">위와 같이 서약하며, 본 서약서가 가지는 책임과 의미를 엄중히 인식하고 이에 동의하여 제출합니다.</p>
-                    </div>
-                    <div className="mt-8 border-t pt-6 text-gray-800 space-y-2">
-                        <p><span className="font-semibold">작성일자 :</span> {todayString}</p>
-                        <p><span className="font-semibold">소속 :</span> {formData.affiliation || '미선택'}</p>
-                        <p><span className="font-semibold">성명 :</span> {formData.nameKorean || '미입력'} (서명/인)</p>
-                    </div>
-                    <div className="mt-8 text-center">
-                        <button onClick={() => { setIsPledgeModalOpen(false); setPledgeChecked(true); }} className="px-8 py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">확인</button>
-                    </div>
-                </div>
-            </div>
+        {isAddressSearchOpen && (
+            <AddressSearch provider={addressProvider} messages={messages} onSelect={handleAddressSelect} onClose={() => setIsAddressSearchOpen(false)} />
         )}
-        
-        {/* Benefits Modal */}
-        {isBenefitsModalOpen && (
-             <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center p-4 z-50">
-                <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl p-6 md:p-8 animate-fade-in-scale">
-                    <h2 className="text-2xl font-bold text-gray-800 text-center mb-6">로봇봉사단 봉사점수 안내</h2>
-                    <div className="max-h-[60vh] overflow-y-auto pr-4 text-gray-700 space-y-4 text-sm leading-relaxed">
-                        <p>국제청소년로봇연맹 로봇봉사단에 입회하여 센터에서 로봇 재능기부 활동에 참여할 경우, 학생들은 학교생활기록부에 반영되는 공식 봉사활동 점수를 인정받을 수 있습니다. 이는 고등학교 내신 및 생활기록부에 중요한 요소로 반영될 수 있으며, 대학 입시에서도 긍정적인 효과를 가져올 수 있습니다.</p>
-                        <h3 className="font-semibold text-md text-gray-800 pt-2">📌 봉사활동 인정 요건</h3>
-                        <ul className="list-disc list-inside space-y-2 pl-2">
-                            <li><span className="font-semibold">최소 시간 기준:</span> 1회 참여 시 최소 1시간 이상 활동해야 봉사시간으로 인정됩니다.</li>
-                            <li><span className="font-semibold">1일 최대 인정 시간:</span> 하루에 인정되는 봉사시간은 최대 4시간 이내입니다.</li>
-                            <li><span className="font-semibold">활동 가능 기관:</span> 영리 목적 기관, 종교적·정치적 목적 기관, 공익에 반하는 기관에서의 봉사활동은 인정되지 않습니다. 센터에서 진행하는 로봇 재능기부 활동은 공익성과 교육적 목적을 갖추고 있어 공식적으로 인정됩니다.</li>
-                            <li><span className="font-semibold">해외 봉사활동:</span> 해외에서 진행된 봉사활동은 학교생활기록부에 기재되지 않으며, 원칙적으로 인정되지 않습니다.</li>
-                            <li><span className="font-semibold">봉사활동 실적의 인정 방법:</span> 학교장이 추천하거나 허가한 봉사활동만 생활기록부에 기재할 수 있습니다. 1365 봉사 포털을 통한 등록 시 반드시 사전 상담 및 확인 절차가 필요합니다.</li>
-                        </ul>
-                         <h3 className="font-semibold text-md text-gray-800 pt-2">✅ 센터에서의 혜택</h3>
-                        <p>센터에서 로봇교육 및 재능기부 활동에 참여하면 위 기준에 따라 봉사활동 점수를 공식적으로 인정받을 수 있습니다.</p>
-                        <p>학생들은 단순 봉사활동이 아닌 <strong className="font-semibold text-indigo-600">전문적 재능기부(로봇, 코딩, 교육 보조 등)</strong>를 통해 자신만의 특색 있는 봉사 실적을 쌓을 수 있으며, 이는 학교생활기록부에 긍정적으로 반영됩니다.</p>
-                    </div>
-                     <div className="mt-8 text-center">
-                        <button onClick={() => { setIsBenefitsModalOpen(false); }} className="px-8 py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">확인</button>
-                    </div>
+
+        {photoToEdit && (
+            <PhotoEditor image={photoToEdit} messages={messages} onConfirm={handlePhotoConfirm} onCancel={closePhotoEditor} />
+        )}
+
+        {openConsent && (
+            <ConsentModal documentId={openConsent} messages={messages} requireScrollToEnd={openConsent === 'pledge'} error={consentError} onAgree={handleConsentAgree} onClose={() => { setOpenConsent(null); setConsentError(''); }}>
+                {openConsent === 'pledge' && (
+                <div className="mt-8 border-t pt-6 text-gray-800 space-y-2">
+                    <p><span className="font-semibold">{messages.pledge.date} :</span> {todayString}</p>
+                    <p><span className="font-semibold">{messages.pledge.affiliation} :</span> {selectedAffiliationName || messages.pledge.notSelected}</p>
+                    {isGroup ? (
+                        <p><span className="font-semibold">{messages.pledge.coordinator} :</span> {coordinator.name || messages.pledge.notEntered} ({messages.pledge.memberCount(members.length)})</p>
+                    ) : (
+                    <>
+                    <p className="flex items-center gap-2"><span className="font-semibold">{messages.pledge.name} :</span> {formData.nameKorean || messages.pledge.notEntered} {messages.pledge.signHere}
+                        {formData.signature && <img src={formData.signature} alt={messages.fieldLabels.signature} className="h-12" />}
+                    </p>
+                    {needsGuardian && (
+                    <>
+                    <p className="flex items-center gap-2"><span className="font-semibold">{messages.pledge.guardian} :</span> {formData.guardianName || messages.pledge.notEntered}{formData.guardianRelationship && ` (${relationshipLabel(messages, formData.guardianRelationship, formData.guardianRelationshipOther)})`} {messages.pledge.signHere}
+                        {formData.guardianSignature && <img src={formData.guardianSignature} alt={messages.fieldLabels.guardianSignature} className="h-12" />}
+                    </p>
+                    {additionalGuardians.length > 0 && (
+                        <p><span className="font-semibold">{messages.pledge.additionalGuardians} :</span> {additionalGuardians.map(guardian => `${guardian.name || messages.pledge.notEntered}${guardian.relationship ? ` (${relationshipLabel(messages, guardian.relationship, guardian.relationshipOther)})` : ''}`).join(', ')}</p>
+                    )}
+                    </>
+                    )}
+                    </>
+                    )}
                 </div>
-            </div>
+                )}
+            </ConsentModal>
         )}
     </div>
   );
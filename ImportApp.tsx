@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import type { ApplicationPayload, Language } from './types';
+import { LANGUAGES, MESSAGES } from './locales';
+import { readApplicationFile, type ImportedApplication } from './utils/applicationImport';
+import { downloadBlob } from './utils/download';
+import { detectLanguage, storeLanguage } from './utils/language';
+import { buildPayloadCsv } from './utils/spreadsheetExport';
+
+// The metadata and the QR code of one export carry the same application in different forms.
+const payloadKey = ({ issuedAt, formData }: ApplicationPayload) => `${issuedAt}|${formData.nameKorean}|${formData.dateOfBirth}`;
+
+const ImportApp: React.FC = () => {
+  const [results, setResults] = useState<ImportedApplication[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [language, setLanguage] = useState<Language>(detectLanguage);
+  const messages = MESSAGES[language];
+  const text = messages.applicationImport;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.title = text.title;
+    storeLanguage(language);
+  }, [language]);
+
+  const imported = results.filter((result): result is Extract<ImportedApplication, { payload: ApplicationPayload }> => 'payload' in result);
+
+  // Files are read one at a time so a large batch doesn't decode dozens of PDFs at once.
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsReading(true);
+    const seen = new Set(imported.map(({ payload }) => payloadKey(payload)));
+    const next: ImportedApplication[] = [];
+    for (const file of files) {
+      const result = await readApplicationFile(file, language);
+      // The PDF, the JPEG and a photo of one application carry the same payload; only the first is kept.
+      if ('payload' in result) {
+        const key = payloadKey(result.payload);
+        if (seen.has(key)) {
+          next.push({ fileName: file.name, error: text.duplicate });
+          continue;
+        }
+        seen.add(key);
+      }
+      next.push(result);
+    }
+    setResults(prev => [...prev, ...next]);
+    setIsReading(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(buildPayloadCsv(imported), text.csvFileName(date));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-6xl mx-auto bg-white rounded-xl shadow-2xl p-6 md:p-8 space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-extrabold text-slate-800">{text.title}</h1>
+            <p className="mt-1 text-sm text-gray-600">{text.intro}</p>
+          </div>
+          <div className="flex" role="group" aria-label={messages.form.languageLabel}>
+            {LANGUAGES.map(code => (
+              <button key={code} type="button" lang={code} onClick={() => setLanguage(code)} aria-pressed={language === code} className={`px-3 py-1 text-xs font-semibold border first:rounded-l-md last:rounded-r-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${language === code ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-600 hover:bg-slate-100'}`}>
+                {MESSAGES[code].languageName}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center gap-2 h-36 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 bg-slate-50 hover:bg-slate-100'}`}
+        >
+          <span className="text-sm font-semibold text-gray-700">{isReading ? text.reading : text.dropZone}</span>
+          <span className="text-xs text-gray-500">{text.multiple}</span>
+          <input
+            type="file"
+            multiple
+            accept=".pdf,application/pdf,image/*"
+            disabled={isReading}
+            onChange={(e) => { handleFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+            className="sr-only"
+          />
+        </label>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            {text.verifiedCount} <span className="font-bold text-gray-900">{imported.length}</span>{text.countUnit}
+            {results.length > imported.length && <> · {text.failedCount} <span className="font-bold text-red-600">{results.length - imported.length}</span>{text.countUnit}</>}
+          </p>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setResults([])} disabled={results.length === 0 || isReading} className="px-3 py-1.5 text-sm font-semibold text-gray-700 border border-gray-300 rounded-lg hover:bg-slate-100 disabled:opacity-50">{text.clear}</button>
+            <button type="button" onClick={handleExport} disabled={imported.length === 0 || isReading} className="px-3 py-1.5 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50">{text.downloadCsv}</button>
+          </div>
+        </div>
+
+        {imported.some(result => !result.verified) && <p className="text-sm text-amber-700">{text.unverifiedNote}</p>}
+
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-100 text-gray-700">
+              <tr>
+                {text.columns.map(header => <th key={header} className="px-3 py-2 font-semibold whitespace-nowrap">{header}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {results.length === 0 && (
+                <tr><td colSpan={5} className="px-4 py-6 text-center text-gray-500">{text.empty}</td></tr>
+              )}
+              {results.map((result, index) => (
+                <tr key={`${index}-${result.fileName}`} className="border-t border-gray-200">
+                  <td className="px-3 py-2 font-medium text-gray-900 break-all">{result.fileName}</td>
+                  {'payload' in result ? (
+                    <>
+                      <td className="px-3 py-2">{result.payload.formData.nameKorean}</td>
+                      <td className="px-3 py-2">{result.payload.affiliationName}</td>
+                      <td className="px-3 py-2">{result.payload.grade}</td>
+                      {result.verified ? (
+                        <td className="px-3 py-2 text-green-700 whitespace-nowrap">{text.verified(text.sources[result.source])}</td>
+                      ) : (
+                        <td className="px-3 py-2 text-amber-700 whitespace-nowrap">{text.unverified(text.sources[result.source])}</td>
+                      )}
+                    </>
+                  ) : (
+                    <td colSpan={4} className="px-3 py-2 text-red-600">{result.error}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportApp;
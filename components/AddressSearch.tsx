@@ -0,0 +1,81 @@
+import React, { useId, useState } from 'react';
+import type { PostalAddress } from '../types';
+import type { Messages } from '../locales';
+import type { AddressProvider } from '../utils/address';
+import Modal from './Modal';
+
+interface AddressSearchProps {
+  provider: AddressProvider;
+  messages: Messages;
+  onSelect: (address: PostalAddress) => void;
+  onClose: () => void;
+}
+
+const AddressSearch: React.FC<AddressSearchProps> = ({ provider, messages, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PostalAddress[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState('');
+  const text = messages.addressSearch;
+  const titleId = useId();
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setIsSearching(true);
+    setError('');
+    try {
+      setResults(await provider.search(query));
+    } catch (err) {
+      console.error(err);
+      setResults(null);
+      setError(text.failed);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <Modal labelledBy={titleId} onClose={onClose} className="max-w-lg">
+      <h2 id={titleId} className="text-2xl font-bold text-gray-800 text-center mb-6">{text.title}</h2>
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <input
+          autoFocus
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={text.placeholder}
+          aria-label={text.title}
+          className="flex-1 h-10 px-3 border border-gray-300 rounded-md shadow-sm bg-slate-50 text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button type="submit" disabled={isSearching || !query.trim()} className="px-4 bg-indigo-600 text-white text-sm font-bold rounded-lg hover:bg-indigo-700 disabled:opacity-50">{text.search}</button>
+      </form>
+      <p className="mt-2 text-xs text-gray-500">{text.hint}</p>
+
+      <div className="mt-4 max-h-[50vh] overflow-y-auto">
+        {isSearching && <p className="py-6 text-center text-sm text-gray-500">{text.searching}</p>}
+        {!isSearching && error && <p className="py-6 text-center text-sm text-red-600">{error}</p>}
+        {!isSearching && results?.length === 0 && <p className="py-6 text-center text-sm text-gray-500">{text.noResults}</p>}
+        {!isSearching && results && results.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {results.map(address => (
+              <li key={`${address.postalCode}-${address.roadAddress}`}>
+                <button type="button" onClick={() => onSelect(address)} className="w-full text-left px-4 py-3 hover:bg-indigo-50 focus:outline-none focus:bg-indigo-50">
+                  <p className="text-sm font-bold text-indigo-600">{address.postalCode}</p>
+                  <p className="text-sm text-gray-900"><span className="inline-block w-12 text-xs font-semibold text-gray-500">{text.road}</span>{address.roadAddress}</p>
+                  {address.jibunAddress && <p className="text-sm text-gray-600"><span className="inline-block w-12 text-xs font-semibold text-gray-500">{text.jibun}</span>{address.jibunAddress}</p>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-6 text-center">
+        <button type="button" onClick={onClose} className="px-8 py-2 bg-white text-gray-700 font-semibold border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">{text.close}</button>
+      </div>
+    </Modal>
+  );
+};
+
+export default AddressSearch;
@@ -0,0 +1,172 @@
+import React, { useId, useState } from 'react';
+import type { ApplicationRecord, ApplicationStatus, FormData } from '../types';
+import { MEMBER_STATUSES, STATUS_TRANSITIONS } from '../constants';
+import { optionLabel, type Messages } from '../locales';
+import { calculateGrade, effectiveGrade } from '../utils/grade';
+import { describeGuardians, relationshipLabel } from '../utils/guardians';
+import { formatPhone } from '../utils/phone';
+import Modal from './Modal';
+
+interface ApplicationDetailProps {
+  application: ApplicationRecord;
+  messages: Messages;
+  affiliationName: string;
+  isSaving: boolean;
+  onStatusChange: (status: ApplicationStatus) => void;
+  onAddNote: (text: string) => void;
+  onIssueMemberNumber: () => void;
+  onDownloadCard: (format: 'png' | 'pdf') => void;
+  onClose: () => void;
+}
+
+const DETAIL_FIELDS: (keyof FormData)[] = [
+  'affiliation', 'membershipType', 'nameKorean', 'nameEnglish', 'dateOfBirth', 'gender', 'email', 'phoneApplicant',
+  'postalCode', 'roadAddress', 'jibunAddress', 'addressDetail', 'guardianRelationship', 'guardianName', 'guardianPhone',
+];
+
+const ApplicationDetail: React.FC<ApplicationDetailProps> = ({ application, messages, affiliationName, isSaving, onStatusChange, onAddNote, onIssueMemberNumber, onDownloadCard, onClose }) => {
+  const [note, setNote] = useState('');
+  const titleId = useId();
+  const text = messages.admin;
+  const { formData, additionalGuardians = [], consents = [] } = application;
+
+  const displayValue = (field: keyof FormData) => {
+    if (field === 'affiliation') return affiliationName;
+    if (field === 'guardianRelationship') return formData.guardianRelationship && relationshipLabel(messages, formData.guardianRelationship, formData.guardianRelationshipOther);
+    if (field === 'membershipType' || field === 'gender') return formData[field] && optionLabel(messages, field, formData[field]);
+    if (field === 'phoneApplicant' || field === 'guardianPhone') return formatPhone(formData[field]);
+    return formData[field];
+  };
+
+  const handleAddNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!note.trim()) return;
+    onAddNote(note);
+    setNote('');
+  };
+
+  return (
+    <Modal labelledBy={titleId} onClose={onClose} className="max-w-3xl max-h-[90vh] overflow-y-auto">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h2 id={titleId} className="text-2xl font-bold text-gray-800">{formData.nameKorean} <span className="text-base font-medium text-gray-500">{application.applicationNumber}</span></h2>
+          <p className="text-sm text-gray-500">{text.submittedAt(new Date(application.submittedAt).toLocaleString(messages.locale))} · {text.currentStatus} <span className="font-semibold text-indigo-600">{text.statuses[application.status]}</span></p>
+        </div>
+        <button type="button" onClick={onClose} className="px-3 py-1 text-sm font-semibold text-gray-600 border border-gray-300 rounded-lg hover:bg-slate-100">{text.close}</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <dl className="md:col-span-2 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 text-sm">
+          {DETAIL_FIELDS.map(field => (
+            <div key={field}>
+              <dt className="font-semibold text-gray-500">{messages.fieldLabels[field]}</dt>
+              <dd className="text-gray-900">{displayValue(field) || '-'}</dd>
+            </div>
+          ))}
+          {application.guardianPhoneVerifiedAt && (
+            <div>
+              <dt className="font-semibold text-gray-500">{text.guardianPhoneVerified}</dt>
+              <dd className="text-gray-900">{new Date(application.guardianPhoneVerifiedAt).toLocaleString(messages.locale)}</dd>
+            </div>
+          )}
+          {application.coordinator && (
+            <div>
+              <dt className="font-semibold text-gray-500">{text.coordinator}</dt>
+              <dd className="text-gray-900">{application.coordinator.name} · {formatPhone(application.coordinator.phone)} · {application.coordinator.email}</dd>
+            </div>
+          )}
+          {additionalGuardians.length > 0 && (
+            <div className="sm:col-span-2">
+              <dt className="font-semibold text-gray-500">{text.additionalGuardians}</dt>
+              {additionalGuardians.map(guardian => <dd key={guardian.id} className="text-gray-900">{describeGuardians(messages, [guardian])}</dd>)}
+            </div>
+          )}
+          <div>
+            <dt className="font-semibold text-gray-500">{text.grade}</dt>
+            <dd className="text-gray-900">
+              {messages.gradeLabel(effectiveGrade(formData)) || '-'}
+              {formData.gradeOverride && <span className="text-gray-500"> ({text.gradeOverridden(messages.gradeLabel(calculateGrade(formData.dateOfBirth)) || '-')})</span>}
+            </dd>
+          </div>
+          {formData.gradeOverride && (
+            <div>
+              <dt className="font-semibold text-gray-500">{messages.fieldLabels.gradeOverrideReason}</dt>
+              <dd className="text-gray-900">{formData.gradeOverrideReason || '-'}</dd>
+            </div>
+          )}
+          <div className="sm:col-span-2">
+            <dt className="font-semibold text-gray-500">{text.consentRecords}</dt>
+            {consents.length === 0 && <dd className="text-gray-900">-</dd>}
+            {consents.map(({ documentId, version, language, agreedAt, contentHash }) => (
+              <dd key={documentId} className="text-gray-900">
+                {messages[documentId].title} <span className="text-gray-500">v{version} · {language} · {new Date(agreedAt).toLocaleString(messages.locale)} · <span className="font-mono text-xs" title={contentHash}>{contentHash.slice(0, 12)}</span></span>
+              </dd>
+            ))}
+          </div>
+        </dl>
+        <div className="flex flex-col items-center gap-3">
+          {application.profileImage
+            ? <img src={application.profileImage} alt={text.photoAlt(formData.nameKorean)} className="w-36 h-48 object-cover rounded-md border" />
+            : <div className="w-36 h-48 rounded-md border border-dashed flex items-center justify-center text-sm text-gray-400">{text.noPhoto}</div>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 mt-6">
+        {(['signature', 'guardianSignature'] as const).map(field => (
+          <div key={field}>
+            <p className="text-sm font-semibold text-gray-500 mb-1">{messages.fieldLabels[field]}</p>
+            <div className="h-20 border rounded-md flex items-center justify-center bg-white">
+              {formData[field] ? <img src={formData[field]} alt={messages.fieldLabels[field]} className="max-h-full" /> : <span className="text-sm text-gray-400">{text.none}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t border-gray-200 mt-6 pt-5">
+        <p className="text-sm font-semibold text-gray-700 mb-2">{text.changeStatus}</p>
+        <div className="flex gap-2">
+          {STATUS_TRANSITIONS[application.status].length === 0 && <span className="text-sm text-gray-500">{text.noTransitions}</span>}
+          {STATUS_TRANSITIONS[application.status].map(status => (
+            <button key={status} type="button" disabled={isSaving} onClick={() => onStatusChange(status)} className={`px-4 py-1.5 text-sm font-bold rounded-lg text-white disabled:opacity-50 ${status === 'rejected' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}>
+              {text.statuses[status]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-gray-200 mt-6 pt-5">
+        <p className="text-sm font-semibold text-gray-700 mb-2">{text.memberCard}</p>
+        {application.memberNumber ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-700 mr-2">{text.memberNumber} <span className="font-bold text-gray-900">{application.memberNumber}</span></span>
+            <button type="button" disabled={isSaving} onClick={() => onDownloadCard('pdf')} className="px-3 py-1.5 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50">{text.downloadPdf}</button>
+            <button type="button" disabled={isSaving} onClick={() => onDownloadCard('png')} className="px-3 py-1.5 text-sm font-semibold text-gray-700 border border-gray-300 rounded-lg hover:bg-slate-100 disabled:opacity-50">{text.downloadPng}</button>
+          </div>
+        ) : MEMBER_STATUSES.includes(application.status) ? (
+          <button type="button" disabled={isSaving} onClick={onIssueMemberNumber} className="px-4 py-1.5 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50">{text.issueMemberNumber}</button>
+        ) : (
+          <span className="text-sm text-gray-500">{text.issuedOnApproval}</span>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200 mt-6 pt-5">
+        <p className="text-sm font-semibold text-gray-700 mb-2">{text.notes}</p>
+        <ul className="space-y-2 mb-3">
+          {application.notes.length === 0 && <li className="text-sm text-gray-400">{text.noNotes}</li>}
+          {application.notes.map((item, index) => (
+            <li key={index} className="text-sm bg-slate-100 rounded-md p-3">
+              <p className="text-gray-900 whitespace-pre-wrap">{item.text}</p>
+              <p className="text-xs text-gray-500 mt-1">{item.author} · {new Date(item.createdAt).toLocaleString(messages.locale)}</p>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddNote} className="flex gap-2">
+          <input value={note} onChange={(e) => setNote(e.target.value)} placeholder={text.notePlaceholder} className="flex-1 h-10 px-3 border border-gray-300 rounded-md bg-slate-50 text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500" />
+          <button type="submit" disabled={isSaving || !note.trim()} className="px-4 bg-indigo-600 text-white text-sm font-bold rounded-lg hover:bg-indigo-700 disabled:opacity-50">{text.addNote}</button>
+        </form>
+      </div>
+    </Modal>
+  );
+};
+
+export default ApplicationDetail;
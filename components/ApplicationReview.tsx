@@ -0,0 +1,166 @@
+import React from 'react';
+import type { ConsentRecords, FormData, GroupCoordinator, GroupMember, Guardian, WizardStep } from '../types';
+import { optionLabel, type Messages } from '../locales';
+import { formatAddress } from '../utils/address';
+import { CONSENT_DOCUMENT_IDS } from '../utils/consent';
+import { effectiveGrade } from '../utils/grade';
+import { describeGuardians, relationshipLabel } from '../utils/guardians';
+import { formatPhone } from '../utils/phone';
+
+interface ApplicationReviewProps {
+  messages: Messages;
+  formData: FormData;
+  affiliationName: string;
+  profileImage: string | null;
+  additionalGuardians: Guardian[];
+  needsGuardian: boolean;
+  consents: ConsentRecords;
+  // Only for 단체 applications, which list their members instead of one applicant.
+  group?: { coordinator: GroupCoordinator; members: GroupMember[] };
+  date: Date;
+  onEdit: (step: WizardStep) => void;
+}
+
+const ReviewSection: React.FC<{ title: string; step: WizardStep; messages: Messages; onEdit: (step: WizardStep) => void; children: React.ReactNode }> = ({ title, step, messages, onEdit, children }) => (
+  <section className="space-y-4">
+    <div className="flex items-center justify-between pb-3 border-b-2 border-slate-200">
+      <h2 className="text-xl font-bold text-slate-700 tracking-wide">{title}</h2>
+      <button type="button" onClick={() => onEdit(step)} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 focus:outline-none focus:underline print-ignore">{messages.wizard.edit}</button>
+    </div>
+    {children}
+  </section>
+);
+
+const Entries: React.FC<{ entries: [string, string][] }> = ({ entries }) => (
+  <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 text-sm">
+    {entries.map(([label, value]) => (
+      <div key={label}>
+        <dt className="font-semibold text-gray-500">{label}</dt>
+        <dd className="text-gray-900 break-words">{value || '-'}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
+// Read-only view of everything the export will contain, shown before submitting.
+// It is also what the JPEG export captures, so edit links are hidden from the capture.
+const ApplicationReview: React.FC<ApplicationReviewProps> = ({ messages, formData, affiliationName, profileImage, additionalGuardians, needsGuardian, consents, group, date, onEdit }) => {
+  const labels = messages.fieldLabels;
+  const section = (step: WizardStep, children: React.ReactNode) => (
+    <ReviewSection title={messages.wizard.steps[step]} step={step} messages={messages} onEdit={onEdit}>{children}</ReviewSection>
+  );
+  const signatureBox = (label: string, name: string, image: string) => (
+    <div>
+      <p className="text-sm font-semibold text-gray-500">{label} <span className="font-normal">({name || '-'})</span></p>
+      <div className="mt-1 h-24 border border-gray-200 rounded-md flex items-center justify-center bg-white">
+        {image ? <img src={image} alt={label} className="max-h-20" /> : <span className="text-sm text-gray-400">-</span>}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      <p className="text-sm text-gray-600 bg-indigo-50 border border-indigo-200 p-4 rounded-lg print-ignore">{messages.wizard.reviewIntro}</p>
+
+      {group ? section('applicant', (
+        <>
+          <Entries entries={[
+            [labels.affiliation, affiliationName],
+            [labels.membershipType, optionLabel(messages, 'membershipType', formData.membershipType)],
+            [messages.form.coordinatorName, group.coordinator.name],
+            [messages.form.coordinatorPhone, formatPhone(group.coordinator.phone)],
+            [messages.form.coordinatorEmail, group.coordinator.email],
+          ]} />
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-100 text-gray-700">
+                <tr>
+                  {['#', labels.nameKorean, labels.dateOfBirth, messages.form.grade, labels.guardianName, messages.form.profilePhoto].map(header => <th key={header} className="px-3 py-2 font-semibold whitespace-nowrap">{header}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {group.members.map((member, index) => (
+                  <tr key={member.id} className="border-t border-gray-200">
+                    <td className="px-3 py-2 text-gray-500">{index + 1}</td>
+                    <td className="px-3 py-2">{member.formData.nameKorean || '-'}</td>
+                    <td className="px-3 py-2">{member.formData.dateOfBirth || '-'}</td>
+                    <td className="px-3 py-2">{messages.gradeLabel(effectiveGrade(member.formData, date)) || '-'}</td>
+                    <td className="px-3 py-2">{member.formData.guardianName || '-'}</td>
+                    <td className="px-3 py-2">{member.profileImage ? <img src={member.profileImage} alt={member.formData.nameKorean} className="h-10 w-8 object-cover rounded" /> : messages.wizard.photoMissing}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-sm text-gray-500">{messages.form.groupSignatureNote}</p>
+        </>
+      )) : (
+        <>
+          {section('applicant', (
+            <Entries entries={[
+              [labels.affiliation, affiliationName],
+              [labels.membershipType, optionLabel(messages, 'membershipType', formData.membershipType)],
+              [labels.nameKorean, formData.nameKorean],
+              [labels.nameEnglish, formData.nameEnglish],
+              [labels.dateOfBirth, formData.dateOfBirth],
+              [messages.form.grade, messages.gradeLabel(effectiveGrade(formData, date))],
+              ...(formData.gradeOverride ? [[labels.gradeOverrideReason, formData.gradeOverrideReason] as [string, string]] : []),
+              [labels.gender, optionLabel(messages, 'gender', formData.gender)],
+              [labels.email, formData.email],
+              [labels.phoneApplicant, formatPhone(formData.phoneApplicant)],
+              [messages.pdf.address, formatAddress(formData)],
+              [labels.jibunAddress, formData.jibunAddress],
+            ]} />
+          ))}
+
+          {section('guardian', needsGuardian ? (
+            <Entries entries={[
+              [labels.guardianRelationship, relationshipLabel(messages, formData.guardianRelationship, formData.guardianRelationshipOther)],
+              [labels.guardianName, formData.guardianName],
+              [labels.guardianPhone, formatPhone(formData.guardianPhone)],
+              ...additionalGuardians.map(guardian => [messages.form.additionalGuardians, describeGuardians(messages, [guardian])] as [string, string]),
+            ]} />
+          ) : (
+            <p className="text-sm text-gray-500">{messages.form.guardianAdultNote}</p>
+          ))}
+
+          {section('signature', (
+            <div className="flex flex-col sm:flex-row gap-6">
+              <div className="w-32 h-40 shrink-0 border border-gray-200 rounded-md flex items-center justify-center bg-slate-50 mx-auto sm:mx-0">
+                {profileImage
+                  ? <img src={profileImage} alt={messages.form.profilePhoto} className="w-full h-full object-cover rounded-md" />
+                  : <span className="text-xs text-gray-400">{messages.wizard.photoMissing}</span>}
+              </div>
+              <div className="flex-1 space-y-4">
+                <p className="text-sm text-gray-600 bg-slate-100 p-4 rounded-lg">{messages.declaration}</p>
+                <p className="text-sm"><span className="font-semibold text-gray-700">{messages.form.joinDate}:</span> <span className="font-bold text-gray-900">{messages.formatDate(date)}</span></p>
+                <div className={`grid grid-cols-1 gap-4 ${needsGuardian ? 'sm:grid-cols-2' : ''}`}>
+                  {signatureBox(labels.signature, formData.nameKorean, formData.signature)}
+                  {needsGuardian && signatureBox(labels.guardianSignature, formData.guardianName, formData.guardianSignature)}
+                </div>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+
+      {section('consent', (
+        <ul className="space-y-2 text-sm">
+          {CONSENT_DOCUMENT_IDS.map(documentId => {
+            const record = consents[documentId];
+            return (
+              <li key={documentId} className="flex flex-wrap justify-between gap-2">
+                <span className="font-medium text-gray-800">{messages[documentId].title}</span>
+                <span className={record ? 'text-green-700' : 'text-gray-500'}>
+                  {record ? messages.wizard.agreed(new Date(record.agreedAt).toLocaleString(messages.locale)) : messages.wizard.notAgreed}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      ))}
+    </div>
+  );
+};
+
+export default ApplicationReview;
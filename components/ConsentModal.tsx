@@ -0,0 +1,104 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import type { ConsentDocumentId } from '../types';
+import type { Messages } from '../locales';
+import Modal from './Modal';
+
+interface ConsentModalProps {
+  documentId: ConsentDocumentId;
+  messages: Messages;
+  // Keeps the agree button disabled until the document has been scrolled to the end.
+  requireScrollToEnd?: boolean;
+  // Shown below the document, e.g. the pledge's name and signature lines.
+  children?: React.ReactNode;
+  // Set when the agreement couldn't be recorded.
+  error?: string;
+  onAgree: () => void;
+  onClose: () => void;
+}
+
+const SCROLL_END_TOLERANCE = 8;
+
+const DocumentBody: React.FC<{ documentId: ConsentDocumentId; messages: Messages }> = ({ documentId, messages }) => {
+  switch (documentId) {
+    case 'pledge':
+      return (
+        <>
+          {messages.pledge.paragraphs.map((paragraph, index) => <p key={index}>{paragraph}</p>)}
+          <p className="font-semibold">{messages.pledge.closing}</p>
+        </>
+      );
+    case 'benefits': {
+      const notice = messages.benefits;
+      return (
+        <>
+          <p>{notice.intro}</p>
+          <h3 className="font-semibold text-md text-gray-800 pt-2">📌 {notice.requirementsTitle}</h3>
+          <ul className="list-disc list-inside space-y-2 pl-2">
+            {notice.requirements.map(({ label, text }) => (
+              <li key={label}><span className="font-semibold">{label}:</span> {text}</li>
+            ))}
+          </ul>
+          <h3 className="font-semibold text-md text-gray-800 pt-2">✅ {notice.centerTitle}</h3>
+          <p>{notice.center}</p>
+          <p>{notice.highlight.before}<strong className="font-semibold text-indigo-600">{notice.highlight.strong}</strong>{notice.highlight.after}</p>
+        </>
+      );
+    }
+    case 'privacy':
+    case 'promotion': {
+      const { intro, items, note } = messages[documentId];
+      return (
+        <>
+          <p>{intro}</p>
+          <dl className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {items.map(({ label, text }) => (
+              <div key={label} className="grid grid-cols-3 gap-3 p-3">
+                <dt className="font-semibold text-gray-800">{label}</dt>
+                <dd className="col-span-2">{text}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="text-gray-500">{note}</p>
+        </>
+      );
+    }
+  }
+};
+
+const ConsentModal: React.FC<ConsentModalProps> = ({ documentId, messages, requireScrollToEnd = false, children, error, onAgree, onClose }) => {
+  const titleId = useId();
+  const bodyId = useId();
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const [hasReadToEnd, setHasReadToEnd] = useState(!requireScrollToEnd);
+
+  const checkScrolledToEnd = () => {
+    const body = bodyRef.current;
+    if (body && body.scrollTop + body.clientHeight >= body.scrollHeight - SCROLL_END_TOLERANCE) setHasReadToEnd(true);
+  };
+
+  // A document short enough to fit without scrolling counts as read.
+  useEffect(checkScrolledToEnd, []);
+
+  return (
+    <Modal labelledBy={titleId} describedBy={bodyId} onClose={onClose}>
+      <h2 id={titleId} className="text-2xl font-bold text-gray-800 text-center mb-6">{messages[documentId].title}</h2>
+      {/* Focusable so the document can be scrolled to its end with the keyboard. */}
+      <div ref={bodyRef} id={bodyId} tabIndex={0} onScroll={checkScrolledToEnd} className="max-h-[60vh] overflow-y-auto pr-4 text-gray-700 space-y-4 text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded">
+        <DocumentBody documentId={documentId} messages={messages} />
+      </div>
+      {children}
+      <div className="mt-8 flex flex-col items-center gap-2">
+        {!hasReadToEnd && <p className="text-xs text-gray-500">{messages.consent.scrollToEnd}</p>}
+        {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+        <div className="flex gap-3">
+          <button type="button" onClick={onClose} className="px-6 py-2 bg-white text-gray-700 font-semibold border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">{messages.consent.close}</button>
+          <button type="button" onClick={onAgree} disabled={!hasReadToEnd} className="px-8 py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            {documentId === 'benefits' ? messages.benefits.confirm : messages.consent.agree}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ConsentModal;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import ErrorSummary from './ErrorSummary';
+import { expectNoAxeViolations } from '../test/axe';
+
+const ITEMS = [
+  { id: 'nameKorean', message: '한글 성명을 입력해주세요.' },
+  { id: 'email', message: '이메일 주소를 입력해주세요.' },
+];
+
+describe('ErrorSummary', () => {
+  it('is announced as an alert with one link per error', async () => {
+    const { container } = render(<ErrorSummary title="2개 항목을 확인해주세요." items={ITEMS} onSelect={() => {}} />);
+    const alert = screen.getByRole('alert');
+    expect(within(alert).getByRole('heading').textContent).toBe('2개 항목을 확인해주세요.');
+    const links = within(alert).getAllByRole('link');
+    expect(links.map(link => [link.textContent, link.getAttribute('href')])).toEqual([
+      ['한글 성명을 입력해주세요.', '#nameKorean'],
+      ['이메일 주소를 입력해주세요.', '#email'],
+    ]);
+    await expectNoAxeViolations(container);
+  });
+
+  it('hands the field id to onSelect instead of following the link', () => {
+    const onSelect = vi.fn();
+    render(<ErrorSummary title="title" items={ITEMS} onSelect={onSelect} />);
+    const link = screen.getByRole('link', { name: '이메일 주소를 입력해주세요.' });
+    const event = new MouseEvent('click', { bubbles: true, cancelable: true });
+    fireEvent(link, event);
+    expect(onSelect).toHaveBeenCalledWith('email');
+    expect(event.defaultPrevented).toBe(true);
+  });
+});
@@ -0,0 +1,24 @@
+import React from 'react';
+import type { ErrorSummaryItem } from '../types';
+
+interface ErrorSummaryProps {
+  title: string;
+  items: ErrorSummaryItem[];
+  onSelect: (id: string) => void;
+}
+
+// Rendered only after a failed attempt, so screen readers announce it as the alert appears.
+const ErrorSummary: React.FC<ErrorSummaryProps> = ({ title, items, onSelect }) => (
+  <div role="alert" className="p-4 border border-red-300 bg-red-50 rounded-lg print-ignore">
+    <h2 className="text-sm font-bold text-red-800">{title}</h2>
+    <ul className="mt-2 list-disc list-inside space-y-1 text-sm">
+      {items.map(({ id, message }) => (
+        <li key={id} className="text-red-700">
+          <a href={`#${id}`} onClick={(e) => { e.preventDefault(); onSelect(id); }} className="underline hover:text-red-900 focus:outline-none focus:ring-2 focus:ring-red-500 rounded">{message}</a>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default ErrorSummary;
@@ -0,0 +1,133 @@
+import React, { useRef } from 'react';
+import type { FormData, FormErrors, GroupMember } from '../types';
+import { GUARDIAN_RELATIONSHIPS } from '../constants';
+import { optionLabel, type Messages } from '../locales';
+import { errorAttributes, errorId } from '../utils/fieldErrors';
+import { formatPhone, normalizePhoneInput } from '../utils/phone';
+import { ROSTER_FIELDS } from '../utils/rosterImport';
+
+interface GroupRosterProps {
+  members: GroupMember[];
+  errors: Record<string, FormErrors>;
+  importError?: string;
+  messages: Messages;
+  onMemberChange: (id: string, field: keyof FormData, value: string) => void;
+  onAddMember: () => void;
+  onRemoveMember: (id: string) => void;
+  onPhotoSelect: (id: string, file: File) => void;
+  onImport: (file: File) => void;
+}
+
+const CHOICES: Partial<Record<keyof FormData, string[]>> = {
+  gender: ['남', '여'],
+  guardianRelationship: GUARDIAN_RELATIONSHIPS,
+};
+
+const INPUT_TYPES: Partial<Record<keyof FormData, string>> = {
+  dateOfBirth: 'date',
+  email: 'email',
+  phoneApplicant: 'tel',
+  guardianPhone: 'tel',
+};
+
+const cellClass = (error?: string) =>
+  `w-full h-8 px-2 text-sm border rounded bg-slate-50 text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${error ? 'border-red-500' : 'border-gray-300'}`;
+
+const GroupRoster: React.FC<GroupRosterProps> = ({ members, errors, importError, messages, onMemberChange, onAddMember, onRemoveMember, onPhotoSelect, onImport }) => {
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const photoTargetRef = useRef<string | null>(null);
+
+  const handlePhotoInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && photoTargetRef.current) onPhotoSelect(photoTargetRef.current, file);
+  };
+
+  const handleImportInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">{messages.roster.count(members.length)}</p>
+        <div className="flex gap-2 print-ignore">
+          <button type="button" onClick={() => importInputRef.current?.click()} className="px-3 py-1.5 text-sm font-semibold text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">{messages.roster.import}</button>
+          <button type="button" onClick={onAddMember} className="px-3 py-1.5 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">{messages.roster.addMember}</button>
+        </div>
+      </div>
+      {importError && <p className="text-xs text-red-600">{importError}</p>}
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-max text-left text-sm">
+          <thead className="bg-slate-100 text-gray-700">
+            <tr>
+              <th className="px-2 py-2 font-semibold">#</th>
+              <th className="px-2 py-2 font-semibold">{messages.roster.photo}</th>
+              {ROSTER_FIELDS.map(field => <th key={field} className="px-2 py-2 font-semibold whitespace-nowrap">{messages.fieldLabels[field]}</th>)}
+              <th className="px-2 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {members.length === 0 && (
+              <tr>
+                <td colSpan={ROSTER_FIELDS.length + 3} className="px-4 py-6 text-center text-gray-500">{messages.roster.empty}</td>
+              </tr>
+            )}
+            {members.map((member, index) => {
+              const memberErrors = errors[member.id] ?? {};
+              return (
+                <tr key={member.id} className="border-t border-gray-200 align-top">
+                  <td className="px-2 py-2 text-gray-500">{index + 1}</td>
+                  <td className="px-2 py-2">
+                    <button
+                      type="button"
+                      id={`${member.id}-profileImage`}
+                      title={memberErrors.profileImage}
+                      aria-label={messages.roster.cellLabel(index + 1, messages.roster.photo)}
+                      {...errorAttributes(`${member.id}-profileImage`, memberErrors.profileImage)}
+                      onClick={() => { photoTargetRef.current = member.id; photoInputRef.current?.click(); }}
+                      className={`w-9 h-12 border-2 border-dashed rounded overflow-hidden flex items-center justify-center text-xs text-gray-400 ${memberErrors.profileImage ? 'border-red-500' : 'border-gray-300 hover:border-indigo-500'}`}
+                    >
+                      {member.profileImage ? <img src={member.profileImage} alt={messages.roster.photoAlt(member.formData.nameKorean)} className="w-full h-full object-cover" /> : '+'}
+                    </button>
+                    {memberErrors.profileImage && <p id={errorId(`${member.id}-profileImage`)} className="sr-only">{memberErrors.profileImage}</p>}
+                  </td>
+                  {ROSTER_FIELDS.map(field => {
+                    const error = memberErrors[field];
+                    const choices = CHOICES[field];
+                    const cellProps = { id: `${member.id}-${field}`, 'aria-label': messages.roster.cellLabel(index + 1, messages.fieldLabels[field]), ...errorAttributes(`${member.id}-${field}`, error) };
+                    return (
+                      <td key={field} className="px-2 py-2 min-w-[8rem]">
+                        {choices ? (
+                          <select {...cellProps} value={member.formData[field]} onChange={(e) => onMemberChange(member.id, field, e.target.value)} className={cellClass(error)}>
+                            <option value="">{messages.roster.select}</option>
+                            {choices.map(choice => <option key={choice} value={choice}>{optionLabel(messages, field as keyof Messages['options'], choice)}</option>)}
+                          </select>
+                        ) : INPUT_TYPES[field] === 'tel' ? (
+                          <input {...cellProps} type="tel" value={formatPhone(member.formData[field])} onChange={(e) => onMemberChange(member.id, field, normalizePhoneInput(e.target.value))} className={cellClass(error)} />
+                        ) : (
+                          <input {...cellProps} type={INPUT_TYPES[field] ?? 'text'} value={member.formData[field]} onChange={(e) => onMemberChange(member.id, field, e.target.value)} className={cellClass(error)} />
+                        )}
+                        {error && <p id={errorId(`${member.id}-${field}`)} className="mt-1 text-xs text-red-600 max-w-[12rem]">{error}</p>}
+                      </td>
+                    );
+                  })}
+                  <td className="px-2 py-2">
+                    <button type="button" onClick={() => onRemoveMember(member.id)} className="px-2 h-8 text-xs font-semibold text-red-600 border border-red-200 rounded hover:bg-red-50">{messages.roster.remove}</button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <input type="file" ref={photoInputRef} onChange={handlePhotoInput} accept="image/*,.heic,.heif" className="hidden" />
+      <input type="file" ref={importInputRef} onChange={handleImportInput} accept=".csv,.xlsx,.xls" className="hidden" />
+    </div>
+  );
+};
+
+export default GroupRoster;
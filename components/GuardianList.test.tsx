@@ -0,0 +1,26 @@
+import React from 'react';
+import { describe, it } from 'vitest';
+import { render } from '@testing-library/react';
+import GuardianList from './GuardianList';
+import { MESSAGES } from '../locales';
+import { expectNoAxeViolations } from '../test/axe';
+import { expectErrorsLinkedToFields } from '../test/fieldErrors';
+
+const GUARDIAN = { id: 'g1', relationship: '기타' as const, relationshipOther: '', name: '', phone: '010' };
+
+describe('GuardianList', () => {
+  it('links each field to its error message', async () => {
+    const { container } = render(
+      <GuardianList
+        guardians={[GUARDIAN]}
+        errors={{ g1: { relationshipOther: '관계를 입력해주세요.', name: '보호자 성명을 입력해주세요.', phone: '휴대전화 번호를 확인해주세요.' } }}
+        messages={MESSAGES.ko}
+        onChange={() => {}}
+        onAdd={() => {}}
+        onRemove={() => {}}
+      />,
+    );
+    expectErrorsLinkedToFields(container);
+    await expectNoAxeViolations(container);
+  });
+});
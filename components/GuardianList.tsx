@@ -0,0 +1,76 @@
+import React from 'react';
+import type { Guardian, GuardianErrors } from '../types';
+import { GUARDIAN_RELATIONSHIPS, MAX_ADDITIONAL_GUARDIANS } from '../constants';
+import { optionLabel, type Messages } from '../locales';
+import { errorAttributes, errorId } from '../utils/fieldErrors';
+import { formatPhone, normalizePhoneInput } from '../utils/phone';
+
+type GuardianField = keyof GuardianErrors;
+
+interface GuardianListProps {
+  guardians: Guardian[];
+  errors: Record<string, GuardianErrors>;
+  // Set by the server when it rejects one of the guardians.
+  error?: string;
+  messages: Messages;
+  onChange: (id: string, field: GuardianField, value: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+}
+
+const inputClass = (value: string, error?: string) =>
+  `w-full h-10 px-3 border rounded-md shadow-sm transition duration-150 ease-in-out text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${value ? 'bg-slate-200 font-medium' : 'bg-slate-50'} ${error ? 'border-red-500 ring-red-500' : 'border-gray-300'}`;
+
+const labelClass = 'block text-sm font-semibold text-gray-700 mb-1.5';
+
+// Guardians besides the primary one. They are listed on the application but do not sign it.
+const GuardianList: React.FC<GuardianListProps> = ({ guardians, errors, error, messages, onChange, onAdd, onRemove }) => {
+  const field = (guardian: Guardian, name: GuardianField, label: string, type = 'text', placeholder?: string) => {
+    const fieldError = errors[guardian.id]?.[name];
+    const isPhone = name === 'phone';
+    return (
+      <div>
+        <label htmlFor={`${guardian.id}-${name}`} className={labelClass}>{label}</label>
+        <input id={`${guardian.id}-${name}`} type={type} value={isPhone ? formatPhone(guardian[name]) : guardian[name]} placeholder={placeholder} onChange={(e) => onChange(guardian.id, name, isPhone ? normalizePhoneInput(e.target.value) : e.target.value)} {...errorAttributes(`${guardian.id}-${name}`, fieldError)} className={inputClass(guardian[name], fieldError)} />
+        {fieldError && <p id={errorId(`${guardian.id}-${name}`)} className="mt-1.5 text-xs text-red-600">{fieldError}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-semibold text-gray-700">{messages.form.additionalGuardians}</p>
+        {guardians.length < MAX_ADDITIONAL_GUARDIANS && (
+          <button type="button" onClick={onAdd} className="px-3 py-1.5 text-sm font-semibold text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 print-ignore">{messages.form.addGuardian}</button>
+        )}
+      </div>
+      {error && <p id={errorId('additionalGuardians')} className="text-xs text-red-600">{error}</p>}
+      {guardians.map(guardian => {
+        const relationshipError = errors[guardian.id]?.relationship;
+        return (
+          <div key={guardian.id} className="grid grid-cols-1 sm:grid-cols-3 gap-x-6 gap-y-4 p-4 border border-gray-200 rounded-lg">
+            <div>
+              <label htmlFor={`${guardian.id}-relationship`} className={labelClass}>{messages.fieldLabels.guardianRelationship}</label>
+              <select id={`${guardian.id}-relationship`} value={guardian.relationship} onChange={(e) => onChange(guardian.id, 'relationship', e.target.value)} {...errorAttributes(`${guardian.id}-relationship`, relationshipError)} className={`${inputClass(guardian.relationship, relationshipError)} ${guardian.relationship ? '' : 'text-gray-500'}`}>
+                <option value="" disabled>{messages.form.relationshipPlaceholder}</option>
+                {GUARDIAN_RELATIONSHIPS.map(relationship => (
+                  <option key={relationship} value={relationship}>{optionLabel(messages, 'guardianRelationship', relationship)}</option>
+                ))}
+              </select>
+              {relationshipError && <p id={errorId(`${guardian.id}-relationship`)} className="mt-1.5 text-xs text-red-600">{relationshipError}</p>}
+            </div>
+            {field(guardian, 'name', messages.fieldLabels.guardianName)}
+            {field(guardian, 'phone', messages.fieldLabels.guardianPhone, 'tel')}
+            {guardian.relationship === '기타' && field(guardian, 'relationshipOther', messages.fieldLabels.guardianRelationshipOther, 'text', messages.form.relationshipOtherPlaceholder)}
+            <div className={`flex items-end justify-end ${guardian.relationship === '기타' ? 'sm:col-span-2' : 'sm:col-span-3'}`}>
+              <button type="button" onClick={() => onRemove(guardian.id)} className="px-3 h-8 text-xs font-semibold text-red-600 border border-red-200 rounded hover:bg-red-50 print-ignore">{messages.form.removeGuardian}</button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GuardianList;
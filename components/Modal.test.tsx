@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import Modal from './Modal';
+import { expectNoAxeViolations } from '../test/axe';
+
+const Harness: React.FC<{ onClose?: () => void }> = ({ onClose = () => {} }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const close = () => {
+    onClose();
+    setIsOpen(false);
+  };
+  return (
+    <>
+      <button type="button" onClick={() => setIsOpen(true)}>open</button>
+      {isOpen && (
+        <Modal labelledBy="modal-title" describedBy="modal-body" onClose={close}>
+          <h2 id="modal-title">Title</h2>
+          <p id="modal-body">Body</p>
+          <button type="button">first</button>
+          <button type="button" onClick={close}>last</button>
+          <div style={{ display: 'none' }}><button type="button">hidden</button></div>
+        </Modal>
+      )}
+    </>
+  );
+};
+
+const openModal = (onClose?: () => void) => {
+  render(<Harness onClose={onClose} />);
+  const opener = screen.getByRole('button', { name: 'open' });
+  opener.focus();
+  fireEvent.click(opener);
+  return opener;
+};
+
+describe('Modal', () => {
+  it('is a labelled modal dialog that takes focus when it opens', async () => {
+    openModal();
+    const dialog = screen.getByRole('dialog', { name: 'Title' });
+    expect(dialog.getAttribute('aria-modal')).toBe('true');
+    expect(dialog.getAttribute('aria-describedby')).toBe('modal-body');
+    expect(document.activeElement).toBe(dialog);
+    await expectNoAxeViolations(document.body);
+  });
+
+  it('keeps Tab focus inside the dialog, skipping hidden controls', () => {
+    openModal();
+    const first = screen.getByRole('button', { name: 'first' });
+    const last = screen.getByRole('button', { name: 'last' });
+
+    last.focus();
+    fireEvent.keyDown(last, { key: 'Tab' });
+    expect(document.activeElement).toBe(first);
+
+    fireEvent.keyDown(first, { key: 'Tab', shiftKey: true });
+    expect(document.activeElement).toBe(last);
+
+    // Shift+Tab from the panel itself, which has focus right after opening, also wraps.
+    const dialog = screen.getByRole('dialog');
+    dialog.focus();
+    fireEvent.keyDown(dialog, { key: 'Tab', shiftKey: true });
+    expect(document.activeElement).toBe(last);
+  });
+
+  it('closes on Escape and returns focus to the control that opened it', () => {
+    const onClose = vi.fn();
+    const opener = openModal(onClose);
+    fireEvent.keyDown(screen.getByRole('button', { name: 'first' }), { key: 'Escape' });
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it('returns focus to the opener when closed from inside', () => {
+    const opener = openModal();
+    fireEvent.click(screen.getByRole('button', { name: 'last' }));
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(document.activeElement).toBe(opener);
+  });
+});
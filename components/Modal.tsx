@@ -0,0 +1,79 @@
+import React, { useEffect, useRef } from 'react';
+
+interface ModalProps {
+  // Id of the element that names the dialog, usually its heading.
+  labelledBy: string;
+  describedBy?: string;
+  onClose: () => void;
+  // Width and layout of the panel, e.g. 'max-w-lg'.
+  className?: string;
+  children: React.ReactNode;
+}
+
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Checks styles rather than layout (offsetParent), which is also null for position: fixed elements.
+const isShown = (element: HTMLElement, root: HTMLElement) => {
+  for (let node: HTMLElement | null = element; node && node !== root; node = node.parentElement) {
+    const style = getComputedStyle(node);
+    if (node.hidden || style.display === 'none' || style.visibility === 'hidden') return false;
+  }
+  return true;
+};
+
+// Keeps keyboard focus inside the dialog while it is open, closes it on Escape and
+// returns focus to whatever opened it once it is gone.
+const Modal: React.FC<ModalProps> = ({ labelledBy, describedBy, onClose, className = 'max-w-2xl', children }) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    // A field with autoFocus keeps its focus; otherwise the panel itself is focused so its title is read out.
+    if (!panelRef.current?.contains(document.activeElement)) panelRef.current?.focus();
+    return () => opener?.focus({ preventScroll: true });
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCloseRef.current();
+      return;
+    }
+    const panel = panelRef.current;
+    if (e.key !== 'Tab' || !panel) return;
+    const focusable = Array.from<HTMLElement>(panel.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(element => isShown(element, panel));
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && (document.activeElement === first || document.activeElement === panel)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center p-4 z-50" onKeyDown={handleKeyDown}>
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        aria-describedby={describedBy}
+        tabIndex={-1}
+        className={`bg-white rounded-lg shadow-xl w-full p-6 md:p-8 animate-fade-in-scale focus:outline-none ${className}`}
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default Modal;
@@ -0,0 +1,105 @@
+import React, { useEffect, useId, useState } from 'react';
+import type { Language, PhoneVerificationChallenge } from '../types';
+import type { Messages } from '../locales';
+import { formatPhone, isMobileNumber } from '../utils/phone';
+import { PhoneVerificationError, confirmVerificationCode, requestVerificationCode } from '../utils/phoneVerificationClient';
+
+interface PhoneVerificationProps {
+  messages: Messages;
+  language: Language;
+  // The guardian's number as stored in the form; a new number needs a new code.
+  phone: string;
+  isVerified: boolean;
+  onVerified: (verificationId: string) => void;
+}
+
+const buttonClass = 'px-3 h-10 text-sm font-semibold text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 whitespace-nowrap';
+
+// Sends a one-time code to the guardian's mobile and confirms it with the server.
+const PhoneVerification: React.FC<PhoneVerificationProps> = ({ messages, language, phone, isVerified, onVerified }) => {
+  const [challenge, setChallenge] = useState<PhoneVerificationChallenge | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const codeId = useId();
+  const text = messages.phoneVerification;
+
+  useEffect(() => {
+    setChallenge(null);
+    setCode('');
+    setError('');
+  }, [phone]);
+
+  // Ticks only while the resend countdown is running.
+  const resendIn = challenge ? Math.ceil((new Date(challenge.resendAt).getTime() - now) / 1000) : 0;
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn, now]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof PhoneVerificationError ? err.message : text.failed);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRequest = () => run(async () => {
+    setChallenge(await requestVerificationCode(phone, language));
+    setNow(Date.now());
+    setCode('');
+  });
+
+  const handleConfirm = () => run(async () => {
+    if (!challenge) return;
+    await confirmVerificationCode(challenge.verificationId, code, language);
+    onVerified(challenge.verificationId);
+  });
+
+  if (isVerified) {
+    return <p className="text-sm font-medium text-green-700" role="status">{text.verified}</p>;
+  }
+
+  return (
+    <div className="space-y-2 print-ignore">
+      <div className="flex flex-wrap items-end gap-2">
+        <button type="button" onClick={handleRequest} disabled={!isMobileNumber(phone) || isBusy || resendIn > 0} className={buttonClass}>
+          {challenge ? text.resend : text.request}
+        </button>
+        {challenge && (
+          <>
+            <div>
+              <label htmlFor={codeId} className="sr-only">{text.code}</label>
+              <input
+                id={codeId}
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                value={code}
+                placeholder={text.codePlaceholder}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                className="w-32 h-10 px-3 border border-gray-300 rounded-md shadow-sm bg-slate-50 text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <button type="button" onClick={handleConfirm} disabled={code.length !== 6 || isBusy} className={buttonClass}>{text.confirm}</button>
+          </>
+        )}
+      </div>
+      <div aria-live="polite" className="text-xs text-gray-600 space-y-1">
+        {challenge && <p>{text.sent(formatPhone(phone))}</p>}
+        {resendIn > 0 && <p>{text.resendIn(resendIn)}</p>}
+      </div>
+      {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PhoneVerification;
@@ -0,0 +1,121 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import type { Messages } from '../locales';
+import { clampCrop, computeCropRect, MAX_ZOOM, MIN_ZOOM, renderCroppedPhoto, type CropState } from '../utils/photo';
+import Modal from './Modal';
+
+interface PhotoEditorProps {
+  image: ImageBitmap;
+  messages: Messages;
+  onConfirm: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+// Matches the 3:4 profile photo box on the form.
+const FRAME = { width: 240, height: 320 };
+// How far one arrow key press moves the photo, in CSS pixels.
+const KEYBOARD_STEP = 10;
+const ARROW_OFFSETS: Record<string, [number, number]> = {
+  ArrowLeft: [-KEYBOARD_STEP, 0],
+  ArrowRight: [KEYBOARD_STEP, 0],
+  ArrowUp: [0, -KEYBOARD_STEP],
+  ArrowDown: [0, KEYBOARD_STEP],
+};
+
+const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, messages, onConfirm, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const titleId = useId();
+  const hintId = useId();
+  const dragRef = useRef<{ x: number; y: number; crop: CropState } | null>(null);
+  const [crop, setCrop] = useState<CropState>({ zoom: MIN_ZOOM, offsetX: 0, offsetY: 0 });
+  const [error, setError] = useState('');
+
+  const updateCrop = (next: CropState) => setCrop(clampCrop(image, FRAME, next));
+
+  const handleConfirm = () => {
+    try {
+      onConfirm(renderCroppedPhoto(image, FRAME, crop, messages.photo));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = FRAME.width * ratio;
+    canvas.height = FRAME.height * ratio;
+    const { sx, sy, sw, sh } = computeCropRect(image, FRAME, crop);
+    ctx.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  }, [image, crop]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    updateCrop({ ...drag.crop, offsetX: drag.crop.offsetX + e.clientX - drag.x, offsetY: drag.crop.offsetY + e.clientY - drag.y });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const offset = ARROW_OFFSETS[e.key];
+    if (!offset) return;
+    e.preventDefault();
+    updateCrop({ ...crop, offsetX: crop.offsetX + offset[0], offsetY: crop.offsetY + offset[1] });
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    updateCrop({ ...crop, zoom: crop.zoom - e.deltaY * 0.002 });
+  };
+
+  return (
+    <Modal labelledBy={titleId} describedBy={hintId} onClose={onCancel} className="max-w-md">
+      <h2 id={titleId} className="text-2xl font-bold text-gray-800 text-center mb-2">{messages.photoEditor.title}</h2>
+      <p id={hintId} className="text-sm text-gray-500 text-center mb-6">{messages.photoEditor.hint}</p>
+      <div className="flex justify-center">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={handleWheel}
+          onKeyDown={handleKeyDown}
+          tabIndex={0}
+          role="img"
+          aria-label={messages.photoEditor.position}
+          style={{ width: FRAME.width, height: FRAME.height, touchAction: 'none' }}
+          className="rounded-md border-2 border-indigo-500 cursor-move bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        />
+      </div>
+      <div className="mt-5 flex items-center gap-3">
+        <label htmlFor="photoZoom" className="text-sm font-semibold text-gray-700 whitespace-nowrap">{messages.photoEditor.zoom}</label>
+        <input
+          id="photoZoom"
+          type="range"
+          min={MIN_ZOOM}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={crop.zoom}
+          onChange={(e) => updateCrop({ ...crop, zoom: Number(e.target.value) })}
+          className="w-full accent-indigo-600"
+        />
+      </div>
+      {error && <p role="alert" className="mt-4 text-sm text-center text-red-600">{error}</p>}
+      <div className="mt-8 flex justify-center gap-3">
+        <button type="button" onClick={onCancel} className="px-6 py-2 bg-white text-gray-700 font-semibold border border-gray-300 rounded-lg hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">{messages.photoEditor.cancel}</button>
+        <button type="button" onClick={handleConfirm} className="px-8 py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">{messages.photoEditor.confirm}</button>
+      </div>
+    </Modal>
+  );
+};
+
+export default PhotoEditor;
@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Messages } from '../locales';
+import { errorAttributes } from '../utils/fieldErrors';
+
+interface Point {
+  x: number;
+  y: number;
+  pressure: number;
+}
+
+interface SignaturePadProps {
+  id: string;
+  value: string;
+  onChange: (dataUrl: string) => void;
+  error?: string;
+  messages: Messages;
+  height?: number;
+  // Total stroke length in CSS pixels required before a signature is accepted.
+  minStrokeLength?: number;
+}
+
+const LINE_WIDTH = 2.5;
+
+const strokeLength = (stroke: Point[]) =>
+  stroke.reduce((total, point, i) => (i === 0 ? 0 : total + Math.hypot(point.x - stroke[i - 1].x, point.y - stroke[i - 1].y)), 0);
+
+const SignaturePad: React.FC<SignaturePadProps> = ({ id, value, onChange, error, messages, height = 120, minStrokeLength = 80 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokesRef = useRef<Point[][]>([]);
+  const activeStrokeRef = useRef<Point[] | null>(null);
+  // A signature restored from a draft has no stroke history; it stays underneath new strokes until cleared.
+  const baseRef = useRef<{ image: HTMLImageElement; dataUrl: string } | null>(null);
+  const [strokeCount, setStrokeCount] = useState(0);
+  const [tooShort, setTooShort] = useState(false);
+  // The last value this pad reported, used to tell our own updates apart from external ones (e.g. a restored draft).
+  const emittedRef = useRef(value);
+
+  const getContext = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return null;
+    const ratio = window.devicePixelRatio || 1;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111827';
+    return { canvas, ctx };
+  };
+
+  const drawSegment = (ctx: CanvasRenderingContext2D, from: Point, to: Point) => {
+    ctx.lineWidth = LINE_WIDTH * (0.5 + to.pressure);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const redraw = () => {
+    const target = getContext();
+    if (!target) return;
+    const { canvas, ctx } = target;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // Drawn at its own aspect ratio so it keeps lining up with the strokes after a resize.
+    const base = baseRef.current?.image;
+    if (base) ctx.drawImage(base, 0, 0, height * base.width / base.height, height);
+    strokesRef.current.forEach(stroke => {
+      if (stroke.length === 1) drawSegment(ctx, stroke[0], stroke[0]);
+      for (let i = 1; i < stroke.length; i++) drawSegment(ctx, stroke[i - 1], stroke[i]);
+    });
+  };
+
+  const loadBase = (dataUrl: string) => {
+    const image = new Image();
+    image.onload = () => {
+      // A newer value may have replaced this one while it was loading.
+      if (emittedRef.current !== dataUrl) return;
+      baseRef.current = { image, dataUrl };
+      redraw();
+    };
+    image.src = dataUrl;
+  };
+
+  const report = (dataUrl: string) => {
+    emittedRef.current = dataUrl;
+    onChange(dataUrl);
+  };
+
+  const emit = () => {
+    const canvas = canvasRef.current;
+    const strokes = strokesRef.current;
+    const base = baseRef.current;
+    setStrokeCount(strokes.length);
+    if (strokes.length === 0) {
+      setTooShort(false);
+      report(base?.dataUrl ?? '');
+      return;
+    }
+    // Strokes added to a restored signature are touch-ups, so the minimum length doesn't apply.
+    const total = strokes.reduce((sum, stroke) => sum + strokeLength(stroke), 0);
+    if ((total < minStrokeLength && !base) || !canvas) {
+      setTooShort(true);
+      report('');
+      return;
+    }
+    setTooShort(false);
+    report(canvas.toDataURL('image/png'));
+  };
+
+  // Size the backing store to the container's width so strokes stay sharp on high-DPI screens,
+  // and again whenever the layout changes it (rotating a phone, resizing the window).
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = canvas?.parentElement;
+    if (!canvas || !container) return;
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(container.clientWidth * ratio);
+      if (canvas.width === width && canvas.height === height * ratio) return;
+      canvas.width = width;
+      canvas.height = height * ratio;
+      redraw();
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [height]);
+
+  useEffect(() => {
+    if (value) loadBase(value);
+  }, []);
+
+  // A signature set from outside replaces whatever was drawn.
+  useEffect(() => {
+    if (value === emittedRef.current) return;
+    emittedRef.current = value;
+    strokesRef.current = [];
+    baseRef.current = null;
+    setStrokeCount(0);
+    setTooShort(false);
+    redraw();
+    if (value) loadBase(value);
+  }, [value]);
+
+  const toPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    // Mice report a constant 0.5 pressure while a button is held; pens report real pressure.
+    const pressure = e.pointerType === 'pen' ? e.pressure : 0.5;
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top, pressure };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const stroke = [toPoint(e)];
+    activeStrokeRef.current = stroke;
+    strokesRef.current = [...strokesRef.current, stroke];
+    const target = getContext();
+    if (target) drawSegment(target.ctx, stroke[0], stroke[0]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = activeStrokeRef.current;
+    if (!stroke) return;
+    const point = toPoint(e);
+    const target = getContext();
+    if (target) drawSegment(target.ctx, stroke[stroke.length - 1], point);
+    stroke.push(point);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!activeStrokeRef.current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    activeStrokeRef.current = null;
+    emit();
+  };
+
+  const handleUndo = () => {
+    strokesRef.current = strokesRef.current.slice(0, -1);
+    redraw();
+    emit();
+  };
+
+  const handleClear = () => {
+    strokesRef.current = [];
+    baseRef.current = null;
+    redraw();
+    emit();
+  };
+
+  return (
+    <div className="w-full">
+      <canvas
+        ref={canvasRef}
+        id={id}
+        tabIndex={0}
+        {...errorAttributes(id, error)}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{ height, touchAction: 'none' }}
+        className={`w-full border rounded-md shadow-sm bg-white cursor-crosshair focus:outline-none focus:ring-2 focus:ring-indigo-500 ${error ? 'border-red-500 ring-red-500' : 'border-gray-300'}`}
+      />
+      <div className="flex items-center justify-between mt-1.5 print-ignore">
+        <span className="text-xs text-gray-500">{tooShort ? messages.signaturePad.tooShort : messages.signaturePad.hint}</span>
+        <div className="flex gap-2">
+          <button type="button" onClick={handleUndo} disabled={strokeCount === 0} className="px-2 py-0.5 text-xs font-semibold text-gray-600 border border-gray-300 rounded hover:bg-slate-100 disabled:opacity-40">{messages.signaturePad.undo}</button>
+          <button type="button" onClick={handleClear} disabled={strokeCount === 0 && !value} className="px-2 py-0.5 text-xs font-semibold text-gray-600 border border-gray-300 rounded hover:bg-slate-100 disabled:opacity-40">{messages.signaturePad.clear}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
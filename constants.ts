@@ -1,8 +1,92 @@
-export const AFFILIATIONS: string[] = [
-  "STEAM영재교육센터-청라",
-  "STEAM영재교육센터-별내",
-  "STEAM영재교육센터-군포",
-  "STEAM영재교육센터-의정부",
-  "STEAM영재교육센터-동패",
-  "STEAM영재교육센터-의정부"
-];
+import type { ApplicationStatus, ConsentDocumentId, FormData, GuardianRelationship } from './types';
+
+// Affiliation registry served from public/; see utils/affiliations.ts for the format.
+export const AFFILIATIONS_URL = "/affiliations.json";
+
+// Sample address dataset served from public/ for the offline address search; see utils/address.ts.
+export const ADDRESS_DATASET_URL = "/addresses.json";
+
+// Age of majority under the Civil Act. Younger applicants need a guardian's details and signature.
+export const ADULT_AGE = 19;
+
+export const GUARDIAN_RELATIONSHIPS: GuardianRelationship[] = ['부', '모', '조부모', '법정대리인', '기타'];
+
+// Guardians that can be listed besides the primary one who signs the form.
+export const MAX_ADDITIONAL_GUARDIANS = 2;
+
+// Older birth dates are taken to be typing mistakes.
+export const MAX_APPLICANT_AGE = 100;
+
+// Korean school years start in March; children start 초1 in the year they turn seven.
+export const SCHOOL_YEAR = { startMonth: 3, entryAge: 7 };
+
+// Documents the applicant agrees to. Bump a version whenever that document's wording
+// changes in any language, so earlier agreements are asked for again.
+export const CONSENT_DOCUMENTS: Record<ConsentDocumentId, { version: string; required: boolean }> = {
+  pledge: { version: '1', required: true },
+  benefits: { version: '1', required: false },
+  privacy: { version: '1', required: true },
+  promotion: { version: '1', required: false },
+};
+
+// TrueType fonts embedded (subset) into the PDF export so Korean text stays selectable.
+// Served from public/fonts (SIL Open Font License, see OFL.txt there), so exports work without a CDN.
+export const KOREAN_FONT_URLS = {
+  regular: "/fonts/NanumGothic-Regular.ttf",
+  bold: "/fonts/NanumGothic-Bold.ttf",
+};
+
+// In-progress applications are kept in IndexedDB for this many days before being discarded.
+export const DRAFT_EXPIRY_DAYS = 7;
+
+// Profile photos are cropped to a 3:4 ID-photo ratio and re-encoded before they are stored.
+export const PHOTO_SETTINGS = {
+  outputWidth: 600,
+  outputHeight: 800,
+  minWidth: 300,
+  minHeight: 400,
+  maxInputBytes: 20 * 1024 * 1024,
+  maxOutputBytes: 300 * 1024,
+};
+
+// Korean field labels: the form's Korean UI (locales/ko.ts) and the column headers for roster import and spreadsheet export.
+export const FIELD_LABELS: Record<keyof FormData, string> = {
+  affiliation: "소속 단체명",
+  nameKorean: "성명 (한글)",
+  nameEnglish: "성명 (영문)",
+  membershipType: "가입 구분",
+  gender: "성별",
+  email: "E-mail",
+  phoneApplicant: "핸드폰 (신청자)",
+  guardianRelationship: "입회자와의 관계",
+  guardianRelationshipOther: "관계 (기타)",
+  guardianName: "보호자 성명",
+  guardianPhone: "보호자 휴대전화",
+  postalCode: "우편번호",
+  roadAddress: "도로명 주소",
+  jibunAddress: "지번 주소",
+  addressDetail: "상세 주소",
+  signature: "지원자 서명",
+  guardianSignature: "보호자 서명",
+  dateOfBirth: "생년월일",
+  gradeOverride: "학년 (직접 입력)",
+  gradeOverrideReason: "학년 변경 사유",
+};
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  received: "접수",
+  approved: "승인",
+  rejected: "반려",
+  member: "정회원",
+};
+
+// Allowed next statuses for staff review: received → approved/rejected → member.
+export const STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  received: ['approved', 'rejected'],
+  approved: ['member'],
+  rejected: [],
+  member: [],
+};
+
+// Applicants in these statuses are members: they get a member number and an ID card.
+export const MEMBER_STATUSES: ApplicationStatus[] = ['approved', 'member'];
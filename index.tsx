@@ -2,15 +2,21 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import AdminApp from './AdminApp';
+import ImportApp from './ImportApp';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Staff reach the review dashboard at /admin and the file import page at /import;
+// everyone else gets the application form.
+const route = window.location.pathname.replace(/\/+$/, '');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {route === '/admin' ? <AdminApp /> : route === '/import' ? <ImportApp /> : <App />}
   </React.StrictMode>
 );
@@ -0,0 +1,457 @@
+import { PHOTO_SETTINGS } from '../constants';
+import type { Messages } from './ko';
+
+const APPLICATION_TITLE = "IYRF Robot Volunteer Corps Membership Application";
+const MOBILE_FORMAT_MESSAGE = "Enter a Korean mobile number such as 010-1234-5678.";
+
+const GRADE_PREFIXES: Record<string, string> = { 초: "Elementary", 중: "Middle School", 고: "High School" };
+
+export const en: Messages = {
+  locale: "en-US",
+  languageName: "English",
+  formatDate: (date: Date) => date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+
+  applicationTitle: APPLICATION_TITLE,
+  declaration: "I fully support the founding purpose of the International Youth Robot Federation Robot Volunteer Corps. I apply with the required documents to join the Corps, to faithfully carry out the responsibilities of a full member, and to live out the Corps' spirit of service and sharing.",
+
+  fieldLabels: {
+    affiliation: "Affiliated center",
+    nameKorean: "Name (Korean)",
+    nameEnglish: "Name (English)",
+    membershipType: "Membership type",
+    gender: "Gender",
+    email: "E-mail",
+    phoneApplicant: "Mobile (applicant)",
+    guardianRelationship: "Relationship to applicant",
+    guardianRelationshipOther: "Relationship (other)",
+    guardianName: "Guardian's name",
+    guardianPhone: "Guardian's mobile",
+    postalCode: "Postal code",
+    roadAddress: "Road-name address",
+    jibunAddress: "Lot-number (jibun) address",
+    addressDetail: "Address details",
+    signature: "Applicant's signature",
+    guardianSignature: "Guardian's signature",
+    dateOfBirth: "Date of birth",
+    gradeOverride: "Grade (entered)",
+    gradeOverrideReason: "Reason for grade change",
+  },
+  options: {
+    membershipType: { 단체: "Group", 개인: "Individual" },
+    gender: { 남: "Male", 여: "Female" },
+    guardianRelationship: { 부: "Father", 모: "Mother", 조부모: "Grandparent", 법정대리인: "Legal guardian", 기타: "Other" },
+  },
+  gradeLabel: (grade: string) => {
+    if (grade === '미취학') return "Preschool";
+    if (grade === '졸업/성인') return "Graduated/Adult";
+    const prefix = GRADE_PREFIXES[grade.charAt(0)];
+    return prefix ? `${prefix} ${grade.slice(1)}` : grade;
+  },
+
+  form: {
+    languageLabel: "Language",
+    applicantSection: "Applicant",
+    guardianSection: "Guardian",
+    groupSection: "Group",
+    rosterSection: "Member roster",
+    affiliationPlaceholder: "Select a center",
+    affiliationLocked: "This center was set by your application link.",
+    affiliationUnknown: "The center in this link could not be found. Please select one from the list.",
+    affiliationLoadFailed: "Could not load the list of centers. Please refresh the page.",
+    grade: "Grade",
+    gradeOverrideToggle: "Is this grade wrong? (early or late school entry, repeating a year, ...)",
+    gradeOverridePlaceholder: "Select the actual grade",
+    gradeOverrideReasonPlaceholder: "e.g. started school a year early",
+    gradeComputed: (grade: string) => `Calculated: ${grade}`,
+    profilePhoto: "Profile photo",
+    uploadPhoto: "Click to upload a photo",
+    relationshipPlaceholder: "Select a relationship",
+    relationshipOtherPlaceholder: "e.g. uncle, foster parent",
+    guardianAdultNote: "Applicants aged 19 or older do not need to enter guardian details.",
+    additionalGuardians: "Additional guardians",
+    addGuardian: "+ Add guardian",
+    removeGuardian: "Remove",
+    englishNameWarning: "Only letters, spaces and hyphens (-) are allowed.",
+    searchAddress: "Find address",
+    addressDetailPlaceholder: "Building, unit and other details",
+    coordinatorName: "Coordinator's name",
+    coordinatorPhone: "Coordinator's mobile",
+    coordinatorEmail: "Coordinator's e-mail",
+    joinDate: "Date joined",
+    groupSignatureNote: "For group applications, print each member's form so the applicant and guardian can sign it by hand.",
+    nameFallback: "Name",
+    guardianNameFallback: "Guardian's name",
+    benefitsCheckbox: "IYRF Robot Volunteer Corps volunteer-hour benefits",
+    pledgeCheckbox: "I have read the pledge and will sign it.",
+    privacyCheckbox: "I agree to the collection and use of personal information.",
+    promotionCheckbox: "I agree to the use of photos and videos for promotion.",
+    required: "(required)",
+    optional: "(optional)",
+    groupSubmitNote: "Downloads a ZIP file with a PDF per member and the roster (Excel).",
+    serverSubmitNote: "Submitting sends your application straight to the federation.",
+    groupServerSubmitNote: "Submitting sends each member's application straight to the federation. The PDFs to sign can be downloaded afterwards.",
+    fileFormat: "File format",
+    submit: "Submit application",
+  },
+
+  draft: {
+    found: "You have a saved application.",
+    savedAt: (time: string) => `(saved ${time}) Would you like to continue?`,
+    restore: "Continue",
+    discard: "Delete draft",
+  },
+
+  wizard: {
+    steps: {
+      applicant: "Applicant",
+      guardian: "Guardian",
+      signature: "Photo & signature",
+      consent: "Consent",
+      review: "Review",
+    },
+    progress: (current: number, total: number) => `Step ${current} of ${total}`,
+    back: "Back",
+    next: "Next",
+    edit: "Edit",
+    reviewIntro: "The application will be created exactly as shown below. To change something, choose \"Edit\" to go back to that step.",
+    agreed: (time: string) => `Agreed (${time})`,
+    notAgreed: "Not agreed",
+    photoMissing: "No photo",
+    errorSummary: (count: number) => `Please check the following (${count})`,
+  },
+
+  receipt: {
+    title: "Your application has been received",
+    delivered: (name: string) => `The ${APPLICATION_TITLE} for ${name} has been sent to the federation.`,
+    number: "Application number",
+    receivedAt: (time: string) => `Received ${time}`,
+    contactNote: "Please quote your application number in any inquiries.",
+    downloadCopy: "Download a copy (PDF)",
+    groupDelivered: (count: number) => `The ${APPLICATION_TITLE}s for ${count} member(s) have been sent to the federation. Please print each member's form, have it signed and hand it in.`,
+    downloadGroupCopy: "Download the group forms (ZIP)",
+    startNew: "Start a new application",
+  },
+
+  alerts: {
+    jpegFailed: "The JPEG conversion failed.",
+    exportFailed: "Something went wrong while creating the application file. Please try again.",
+  },
+
+  pledge: {
+    title: "Pledge",
+    paragraphs: [
+      "From the date I join, as a member of the International Youth Robot Federation Robot Volunteer Corps, I fully understand and respect the founding purpose and goals of the Corps, and I pledge as follows.",
+      "As a member of the Corps, I will learn its mission and duties faithfully and take part in every activity with responsibility and initiative.",
+      "I will take part sincerely in all preparation before deployment, prepare for volunteer work with passion and dedication, and uphold the honor of the Corps.",
+      "I will strictly follow the Corps' rules and activity guidelines and respect its order and discipline. I will take responsibility for any problems or consequences arising from my own judgment or unauthorized actions.",
+      "Throughout our volunteer work I will communicate well with fellow members and staff in a spirit of cooperation and consideration, and contribute to the growth of the Corps and a positive culture of service.",
+      "I will always take pride in being a member of the Corps, and through every activity I will have a positive impact on my community and the world and lead the way in spreading the value of service.",
+    ],
+    closing: "I make this pledge fully aware of the responsibility and meaning it carries, and I agree to it and submit it.",
+    date: "Date",
+    affiliation: "Center",
+    name: "Name",
+    applicant: "Applicant",
+    guardian: "Guardian",
+    additionalGuardians: "Additional guardians",
+    coordinator: "Coordinator",
+    memberCount: (count: number) => `${count} member${count === 1 ? '' : 's'}`,
+    signHere: "(signature)",
+    notSelected: "Not selected",
+    notEntered: "Not entered",
+  },
+
+  benefits: {
+    title: "Volunteer Hours with the Robot Volunteer Corps",
+    intro: "Students who join the IYRF Robot Volunteer Corps and take part in robot talent-donation activities at a center can earn official volunteer hours recorded in their school record (생활기록부). These can count toward high school assessments and the school record, and can also help with university admissions.",
+    requirementsTitle: "Requirements for recognized volunteer hours",
+    requirements: [
+      { label: "Minimum time", text: "Each session must last at least one hour to count as volunteer time." },
+      { label: "Daily maximum", text: "At most four hours are recognized per day." },
+      { label: "Eligible organizations", text: "Volunteering at for-profit, religious, political or otherwise non-public-interest organizations is not recognized. Robot talent-donation activities at the centers serve the public interest and an educational purpose, so they are officially recognized." },
+      { label: "Volunteering abroad", text: "Volunteer work carried out overseas is not entered in the school record and is, in principle, not recognized." },
+      { label: "How hours are recognized", text: "Only volunteer work recommended or approved by the school principal can be entered in the school record. Registering through the 1365 volunteer portal requires prior consultation and confirmation." },
+    ],
+    centerTitle: "Benefits at the center",
+    center: "Robot education and talent-donation activities at the center are officially recognized as volunteer hours under the criteria above.",
+    highlight: {
+      before: "Rather than ordinary volunteering, students build a distinctive record through ",
+      strong: "skilled talent donation (robotics, coding, teaching assistance and more)",
+      after: ", which reflects positively in their school record.",
+    },
+    confirm: "OK",
+  },
+
+  addressSearch: {
+    title: "Find address",
+    placeholder: "Road name, building number, lot number or postal code",
+    hint: "e.g. 청라커낼로 252, 별내동 1003, 22739",
+    search: "Search",
+    searching: "Searching...",
+    noResults: "No addresses found. Try a different search or enter the address yourself.",
+    failed: "The address search is unavailable. Please enter the address yourself.",
+    road: "Road",
+    jibun: "Lot",
+    close: "Close",
+  },
+
+  privacy: {
+    title: "Consent to the Collection and Use of Personal Information",
+    intro: "The IYRF Robot Volunteer Corps collects and uses the personal information below to process membership applications.",
+    items: [
+      { label: "Purpose", text: "Receiving and reviewing applications, managing members, volunteer activity notices and issuing volunteer-hour certificates" },
+      { label: "Information collected", text: "Name (Korean and English), date of birth, gender, grade, mobile number, e-mail, address, photo, signature, and the guardian's name, relationship and mobile number" },
+      { label: "Retention period", text: "Until membership ends. The information is then destroyed without delay, unless the law requires it to be kept for longer, in which case it is kept for that period." },
+      { label: "Right to refuse", text: "You may refuse to consent, but the application cannot be accepted without it." },
+    ],
+    note: "For applicants under 14, personal information is collected with the consent of their legal guardian.",
+  },
+
+  promotion: {
+    title: "Consent to the Use of Photos and Videos for Promotion",
+    intro: "We would like to use photos and videos taken during volunteer activities on the federation's website, social media and newsletters to introduce the Robot Volunteer Corps.",
+    items: [
+      { label: "Purpose", text: "Introducing and promoting the Robot Volunteer Corps" },
+      { label: "Material used", text: "Photos and videos taken during volunteer activities (names and other personal information are not published with them)" },
+      { label: "Retention period", text: "Until consent is withdrawn" },
+      { label: "Right to refuse", text: "Refusing has no effect on your application or your volunteer activities." },
+    ],
+    note: "You can withdraw this consent at any time by contacting the federation.",
+  },
+
+  consent: {
+    scrollToEnd: "Scroll to the end to agree.",
+    agree: "I agree",
+    close: "Close",
+    recordsTitle: "Consent records",
+    version: "Version",
+    agreedAt: "Agreed at",
+    contentHash: "Document hash",
+    recordFailed: "The agreement could not be recorded. Make sure the page was opened over a secure (https) connection and try again.",
+  },
+
+  signaturePad: {
+    hint: "Sign with a mouse, finger or pen.",
+    tooShort: "The signature is too short. Please sign again.",
+    undo: "Undo",
+    clear: "Clear",
+  },
+
+  photoEditor: {
+    title: "Edit photo",
+    hint: "Drag to move the photo and zoom so the face is clearly visible.",
+    zoom: "Zoom",
+    position: "Photo position (move with the arrow keys)",
+    cancel: "Cancel",
+    confirm: "OK",
+  },
+
+  photo: {
+    notImage: "Only image files can be uploaded.",
+    tooLarge: `The photo file is too large. Please choose a photo under ${PHOTO_SETTINGS.maxInputBytes / 1024 / 1024}MB.`,
+    heicUnsupported: "This browser cannot open HEIC photos. Please convert it to JPG or PNG and upload again.",
+    unreadable: "The photo could not be read. Please choose another photo.",
+    tooSmall: `The photo resolution is too low. Please choose a photo of at least ${PHOTO_SETTINGS.minWidth}×${PHOTO_SETTINGS.minHeight}.`,
+    processingFailed: "The photo could not be processed.",
+    tooDetailed: `The photo could not be reduced to ${PHOTO_SETTINGS.maxOutputBytes / 1024}KB or less. Please choose another photo with a plainer background.`,
+  },
+
+  roster: {
+    count: (count: number) => `${count} total`,
+    import: "Import CSV/Excel",
+    addMember: "+ Add member",
+    photo: "Photo",
+    select: "Select",
+    remove: "Remove",
+    empty: "Add members or import a roster file.",
+    photoAlt: (name: string) => `Photo of ${name}`,
+    cellLabel: (row: number, field: string) => `Member ${row} ${field}`,
+    noMembers: "Please add at least one member.",
+    fileEmpty: "The roster file has no members.",
+    noSheet: "The roster file has no sheets.",
+    noColumns: (example: string) => `No recognizable columns were found. Put column names such as "${example}" in the first row.`,
+    unsupportedFile: "Only CSV or Excel (.xlsx) files can be imported.",
+  },
+
+  submission: {
+    unreachable: "Could not reach the application server. Please try again shortly.",
+    failed: "Your application could not be submitted.",
+    invalid: "Please check your entries.",
+    memberFailed: (name: string, reason: string, submitted: number) =>
+      `The application for ${name} could not be submitted: ${reason}` + (submitted > 0 ? ` The ${submitted} member(s) already received have been taken off the roster.` : ''),
+  },
+
+  payload: {
+    unreachable: "Could not reach the server that signs application data. Please try again later.",
+    failed: "The application data could not be signed or verified.",
+    notConfigured: "No signing key is set on the server, so application data can't be signed or verified.",
+    unavailable: "No server is configured to verify application data.",
+    invalidFormat: "The application data is not in a valid format.",
+    signatureMismatch: "The signature doesn't match. The file was edited after export or signed by a different server.",
+    unsupportedVersion: "This version of the application data is not supported.",
+    notJpeg: "The file is not a JPEG image.",
+  },
+
+  applicationImport: {
+    title: "Import Applications",
+    intro: "Select exported application forms (PDF, JPEG) or photos of printed ones to read their application data and collect it in a single CSV.",
+    dropZone: "Drag files here or click to select",
+    reading: "Reading files...",
+    multiple: "You can select several files at once.",
+    verifiedCount: "Read",
+    failedCount: "Failed",
+    countUnit: "",
+    clear: "Clear list",
+    downloadCsv: "Download CSV",
+    columns: ["File name", "Name", "Affiliation", "Grade", "Result"],
+    empty: "No files imported yet.",
+    verified: (source: string) => `Verified (${source})`,
+    unverified: (source: string) => `Signature not verified (${source})`,
+    unverifiedNote: "Applications whose signature couldn't be verified may have been edited after export; check them against the original.",
+    sources: { metadata: "file data", qr: "QR code" },
+    duplicate: "This application has already been imported.",
+    unsupportedFile: "Only PDF or image files can be imported.",
+    noData: "No application data was found. Check that the file was exported from this form.",
+    csvFileName: (date: string) => `imported_applications_${date}.csv`,
+  },
+
+  phoneVerification: {
+    request: "Send code",
+    resend: "Send a new code",
+    resendIn: (seconds: number) => `You can request a new code in ${seconds}s.`,
+    code: "Verification code",
+    codePlaceholder: "6 digits",
+    confirm: "Verify",
+    sent: (phone: string) => `A verification code was sent to ${phone}.`,
+    verified: "The guardian's mobile number is verified.",
+    smsText: (code: string) => `[IYRF Robot Volunteer Corps] Your guardian verification code is ${code}.`,
+    unreachable: "Could not reach the verification server. Please try again shortly.",
+    failed: "The mobile number could not be verified.",
+    cooldown: (seconds: number) => `You can request a new code in ${seconds} seconds.`,
+    tooManyRequests: "Too many codes were requested. Please try again in an hour.",
+    expired: "The code has expired. Please request a new one.",
+    wrongCode: (remaining: number) => `The code does not match. (${remaining} attempts left)`,
+    locked: "The code was entered incorrectly too many times. Please request a new one.",
+  },
+
+  validation: {
+    affiliationRequired: "Please select a center.",
+    affiliationInvalid: "Please select the center again.",
+    nameKoreanRequired: "Please enter the name in Korean.",
+    nameKoreanInvalid: "The Korean name must be 2–10 Hangul characters.",
+    nameEnglishRequired: "Please enter the name in English.",
+    nameEnglishInvalid: "Only letters, spaces and hyphens (-) are allowed.",
+    dateOfBirthRequired: "Please enter the date of birth.",
+    dateOfBirthInvalid: "Please enter a valid date of birth.",
+    gradeOverrideInvalid: "Please select the grade again.",
+    gradeOverrideReasonRequired: "Please explain why the grade differs.",
+    preschoolNotEligible: "Applicants must be in elementary school (grade 1) or above.",
+    ageTooOld: (max: number) => `Applicants must be ${max} or younger. Please check the date of birth.`,
+    membershipTypeRequired: "Please select a membership type.",
+    membershipTypeInvalid: "Please select the membership type again.",
+    genderRequired: "Please select a gender.",
+    genderInvalid: "Please select the gender again.",
+    emailRequired: "Please enter an e-mail address.",
+    emailInvalid: "Please enter a valid e-mail address.",
+    phoneApplicantRequired: "Please enter the applicant's mobile number.",
+    mobileInvalid: MOBILE_FORMAT_MESSAGE,
+    phoneInvalid: "Enter a Korean phone number with its area code, such as 02-123-4567.",
+    postalCodeRequired: "Please search for your address to fill in the postal code.",
+    postalCodeInvalid: "The postal code must be 5 digits.",
+    roadAddressRequired: "Please enter the road-name address.",
+    guardianRelationshipRequired: "Please select the guardian's relationship.",
+    guardianRelationshipInvalid: "Please select the guardian's relationship again.",
+    guardianRelationshipOtherRequired: "Please describe the guardian's relationship.",
+    guardianNameRequired: "Please enter the guardian's name.",
+    guardianPhoneRequired: "Please enter the guardian's mobile number.",
+    guardianPhoneUnverified: "Please verify the guardian's mobile number.",
+    signatureRequired: "Please add the applicant's signature.",
+    guardianSignatureRequired: "Please add the guardian's signature.",
+    additionalGuardiansInvalid: "Please check the additional guardians' details.",
+    consentsRequired: "You must agree to the pledge and the collection and use of personal information before submitting.",
+    consentsInvalid: "Your consent records could not be verified. Please agree to the pledge and the personal information consent again.",
+    profileImageRequired: "Please upload a profile photo.",
+    profileImageInvalid: "The profile photo format is not valid.",
+    signatureImageInvalid: "The signature image format is not valid.",
+    coordinatorNameRequired: "Please enter the coordinator's name.",
+    coordinatorPhoneRequired: "Please enter the coordinator's phone number.",
+    coordinatorEmailRequired: "Please enter the coordinator's e-mail address.",
+    coordinatorInvalid: "Please check the group coordinator's details.",
+  },
+
+  memberCard: {
+    organization: "IYRF Robot Volunteer Corps",
+    memberNumber: "Member No.",
+    issuedAt: (date: string) => `Issued ${date}`,
+    noPhoto: "No photo",
+    notice: [
+      "This card is a membership card of the IYRF Robot Volunteer Corps.",
+      "Please carry it whenever you take part in volunteer activities.",
+      "If found, please return it to the center below.",
+    ],
+    canvasUnavailable: "The member card could not be drawn.",
+    imageFailed: "The member card image could not be created.",
+    frontFileName: (memberNumber: string) => `${memberNumber}_front.png`,
+    backFileName: (memberNumber: string) => `${memberNumber}_back.png`,
+    documentTitle: (memberNumber: string) => `${memberNumber} member card`,
+    sheetTitle: "Member card print sheets",
+  },
+
+  admin: {
+    unreachable: "Could not connect to the server.",
+    failed: "The request could not be processed.",
+    loginTitle: "Admin Sign-in",
+    username: "Username",
+    password: "Password",
+    login: "Sign in",
+    logout: "Sign out",
+    title: "Membership Applications",
+    allAffiliations: "All affiliations",
+    inactive: (name: string) => `${name} (inactive)`,
+    allMembershipTypes: "All types",
+    grade: "Grade",
+    allGrades: "All grades",
+    submittedFrom: "Submitted from",
+    submittedTo: "Submitted until",
+    count: (count: number) => `${count} in total`,
+    exportCsv: "Export CSV",
+    exportExcel: "Export Excel",
+    listFileName: (date: string, extension: string) => `applications_${date}.${extension}`,
+    columns: ["Application No.", "Submitted", "Name", "Affiliation", "Membership type", "Grade", "Status", "Member No."],
+    empty: "No applications match these filters.",
+    statuses: { received: "Received", approved: "Approved", rejected: "Rejected", member: "Full member" },
+    submittedAt: (date: string) => `Submitted ${date}`,
+    currentStatus: "Status",
+    close: "Close",
+    guardianPhoneVerified: "Guardian mobile verified",
+    coordinator: "Group coordinator",
+    additionalGuardians: "Additional guardians",
+    gradeOverridden: (calculated: string) => `entered manually · calculated ${calculated}`,
+    consentRecords: "Consent records",
+    photoAlt: (name: string) => `Photo of ${name}`,
+    noPhoto: "No photo",
+    none: "None",
+    changeStatus: "Change status",
+    noTransitions: "No further status changes are possible.",
+    notes: "Internal notes",
+    noNotes: "No notes yet.",
+    notePlaceholder: "Add a note",
+    addNote: "Add",
+    memberCard: "Member card",
+    memberNumber: "Member No.",
+    issueMemberNumber: "Issue member number",
+    issuedOnApproval: "A member number is issued when the application is approved.",
+    downloadPdf: "Download PDF",
+    downloadPng: "Download PNG",
+    printCards: (count: number) => `Print member cards (${count})`,
+    printingCards: "Creating member cards...",
+    cardFileName: (memberNumber: string, extension: string) => `${memberNumber}_member_card.${extension}`,
+    cardSheetFileName: (date: string) => `member_cards_${date}.pdf`,
+  },
+
+  pdf: {
+    address: "Address",
+    payloadCaption: "Application data QR code (for office staff)",
+    fontLoadFailed: "The fonts for the PDF could not be loaded. Please try again later.",
+  },
+};
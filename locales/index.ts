@@ -0,0 +1,24 @@
+import type { Language } from '../types';
+import { en } from './en';
+import { ko, type Messages } from './ko';
+
+export type { Messages, ValidationMessages } from './ko';
+
+export const LANGUAGES: Language[] = ['ko', 'en'];
+
+export const MESSAGES: Record<Language, Messages> = { ko, en };
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+// Server-side: the form sends its UI language as Accept-Language; anything else falls back to Korean.
+export const languageFromHeader = (header: string | undefined): Language => {
+  const primary = header?.split(',')[0]?.trim().slice(0, 2).toLowerCase();
+  return isLanguage(primary) ? primary : 'ko';
+};
+
+// Shows a stored option value ('남', '부', ...) in the given language, or the raw value if it isn't an option.
+export const optionLabel = (
+  messages: Messages,
+  group: keyof Messages['options'],
+  value: string,
+): string => (messages.options[group] as Record<string, string>)[value] ?? value;
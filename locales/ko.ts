@@ -0,0 +1,433 @@
+import { FIELD_LABELS, PHOTO_SETTINGS } from '../constants';
+import { formatKoreanDate } from '../utils/date';
+
+const APPLICATION_TITLE = "국제청소년로봇연맹 로봇봉사단 입회신청서";
+const MOBILE_FORMAT_MESSAGE = "010-1234-5678 형식의 휴대전화 번호를 입력해주세요.";
+
+export const ko = {
+  locale: "ko-KR",
+  languageName: "한국어",
+  formatDate: formatKoreanDate,
+
+  applicationTitle: APPLICATION_TITLE,
+  declaration: "상기 본인은 국제청소년연맹 로봇봉사단 설립취지에 적극 동의하며, 국제청소년연맹 로봇봉사단에 입회하여 로봇봉사단 정회원으로 주어진 책임을 성실하게 이행하고, 섬김과 나눔의 로봇봉사단의 정신을 구현하기 위해 소정의 서류를 갖추어 지원합니다.",
+
+  fieldLabels: FIELD_LABELS,
+  // Display labels for the stored option values, which stay in Korean whatever the UI language.
+  options: {
+    membershipType: { 단체: "단체", 개인: "개인" },
+    gender: { 남: "남", 여: "여" },
+    guardianRelationship: { 부: "부", 모: "모", 조부모: "조부모", 법정대리인: "법정대리인", 기타: "기타" },
+  },
+  gradeLabel: (grade: string) => grade,
+
+  form: {
+    languageLabel: "언어",
+    applicantSection: "가입자 정보",
+    guardianSection: "보호자 정보",
+    groupSection: "단체 정보",
+    rosterSection: "단원 명단",
+    affiliationPlaceholder: "소속 단체명을 선택하세요",
+    affiliationLocked: "신청 링크에 지정된 소속 단체입니다.",
+    affiliationUnknown: "링크에 지정된 소속 단체를 찾을 수 없습니다. 목록에서 선택해주세요.",
+    affiliationLoadFailed: "소속 단체 목록을 불러오지 못했습니다. 페이지를 새로고침해주세요.",
+    grade: "학년",
+    gradeOverrideToggle: "학년이 실제와 다른가요? (빠른년생, 조기·유예 입학, 유급 등)",
+    gradeOverridePlaceholder: "실제 학년 선택",
+    gradeOverrideReasonPlaceholder: "예: 빠른년생으로 1년 일찍 입학",
+    gradeComputed: (grade: string) => `자동 계산: ${grade}`,
+    profilePhoto: "프로필 사진",
+    uploadPhoto: "클릭하여 사진 업로드",
+    relationshipPlaceholder: "관계를 선택하세요",
+    relationshipOtherPlaceholder: "예: 삼촌, 위탁부모",
+    guardianAdultNote: "만 19세 이상 성인 신청자는 보호자 정보를 입력하지 않습니다.",
+    additionalGuardians: "추가 보호자",
+    addGuardian: "+ 보호자 추가",
+    removeGuardian: "삭제",
+    englishNameWarning: "영문, 공백, 하이픈(-)만 입력 가능합니다.",
+    searchAddress: "주소 검색",
+    addressDetailPlaceholder: "동·호수 등 나머지 주소",
+    coordinatorName: "담당자 성명",
+    coordinatorPhone: "담당자 휴대전화",
+    coordinatorEmail: "담당자 E-mail",
+    joinDate: "가입일",
+    groupSignatureNote: "단체 신청서는 단원별 신청서를 출력하여 지원자와 보호자가 직접 서명합니다.",
+    nameFallback: "성명",
+    guardianNameFallback: "보호자 성명",
+    benefitsCheckbox: "국제청소년로봇연맹 로봇봉사단 봉사활동 혜택 안내",
+    pledgeCheckbox: "서약서를 확인하고 서명하겠습니다.",
+    privacyCheckbox: "개인정보 수집·이용에 동의합니다.",
+    promotionCheckbox: "홍보용 사진·영상 활용에 동의합니다.",
+    required: "(필수)",
+    optional: "(선택)",
+    groupSubmitNote: "단원별 PDF와 명단(Excel)을 ZIP 파일로 내려받습니다.",
+    serverSubmitNote: "제출하면 신청서가 연맹으로 바로 접수됩니다.",
+    groupServerSubmitNote: "제출하면 단원별 신청서가 연맹으로 바로 접수됩니다. 서명할 PDF는 접수 후 내려받을 수 있습니다.",
+    fileFormat: "파일 형식",
+    submit: "입회 신청서 제출",
+  },
+
+  draft: {
+    found: "저장된 신청서가 있습니다.",
+    savedAt: (time: string) => `(${time} 저장) 이어서 작성하시겠습니까?`,
+    restore: "이어서 작성",
+    discard: "임시저장 삭제",
+  },
+
+  wizard: {
+    steps: {
+      applicant: "가입자 정보",
+      guardian: "보호자 정보",
+      signature: "사진/서명",
+      consent: "동의",
+      review: "확인",
+    },
+    progress: (current: number, total: number) => `${total}단계 중 ${current}단계`,
+    back: "이전",
+    next: "다음",
+    edit: "수정",
+    reviewIntro: "아래 내용 그대로 신청서가 만들어집니다. 고칠 내용이 있으면 '수정'을 눌러 해당 단계로 돌아가세요.",
+    agreed: (time: string) => `동의함 (${time})`,
+    notAgreed: "동의하지 않음",
+    photoMissing: "사진 없음",
+    errorSummary: (count: number) => `입력 내용을 확인해주세요 (${count}건)`,
+  },
+
+  receipt: {
+    title: "입회 신청이 접수되었습니다",
+    delivered: (name: string) => `${name}님의 ${APPLICATION_TITLE}가 연맹에 전달되었습니다.`,
+    number: "접수번호",
+    receivedAt: (time: string) => `${time} 접수`,
+    contactNote: "문의 시 접수번호를 알려주세요.",
+    downloadCopy: "신청서 사본 내려받기 (PDF)",
+    groupDelivered: (count: number) => `단원 ${count}명의 ${APPLICATION_TITLE}가 연맹에 전달되었습니다. 단원별 신청서를 출력해 서명을 받아 제출해주세요.`,
+    downloadGroupCopy: "단체 신청서 내려받기 (ZIP)",
+    startNew: "새 신청서 작성",
+  },
+
+  alerts: {
+    exportFailed: "신청서 파일을 만드는 중 오류가 발생했습니다. 다시 시도해주세요.",
+    jpegFailed: "JPEG 변환에 실패했습니다.",
+  },
+
+  pledge: {
+    title: "서약서",
+    paragraphs: [
+      "본인은 가입일로부터 국제청소년로봇연맹 로봇봉사단의 일원으로서 활동에 참여함에 있어, 봉사단의 설립 취지와 목적을 깊이 이해하고 이를 존중하며 다음과 같이 서약합니다.",
+      "본인은 국제청소년로봇연맹 로봇봉사단의 일원으로서 봉사단의 사명과 임무를 성실히 숙지하고, 모든 활동에서 책임감 있고 적극적인 태도로 임하겠습니다.",
+      "본인은 봉사단 파견 전까지의 모든 준비 과정에 성실히 참여하며, 열정과 헌신으로 봉사활동을 준비하여 봉사단의 명예를 지키겠습니다.",
+      "본인은 국제청소년로봇연맹 로봇봉사단의 규약과 활동지침을 철저히 준수하며, 단체의 질서와 규율을 존중하겠습니다. 또한 개인적인 판단이나 자의적인 행동으로 인해 발생하는 모든 문제와 결과에 대하여 스스로 책임을 지겠습니다.",
+      "본인은 봉사활동 전 과정에서 협력과 배려의 정신을 바탕으로 타 단원 및 관계자들과 원활히 소통하며, 봉사단의 발전과 긍정적인 활동 문화 조성에 기여하겠습니다.",
+      "본인은 국제청소년로봇연맹 로봇봉사단의 일원임을 항상 자부심으로 여기며, 모든 활동을 통해 지역사회와 국제사회에 긍정적인 영향을 주고 봉사의 가치를 확산하는 데 앞장서겠습니다.",
+    ],
+    closing: "위와 같이 서약하며, 본 서약서가 가지는 책임과 의미를 엄중히 인식하고 이에 동의하여 제출합니다.",
+    date: "작성일자",
+    affiliation: "소속",
+    name: "성명",
+    applicant: "지원자",
+    guardian: "보호자",
+    additionalGuardians: "추가 보호자",
+    coordinator: "담당자",
+    memberCount: (count: number) => `단원 ${count}명`,
+    signHere: "(서명/인)",
+    notSelected: "미선택",
+    notEntered: "미입력",
+  },
+
+  benefits: {
+    title: "로봇봉사단 봉사점수 안내",
+    intro: "국제청소년로봇연맹 로봇봉사단에 입회하여 센터에서 로봇 재능기부 활동에 참여할 경우, 학생들은 학교생활기록부에 반영되는 공식 봉사활동 점수를 인정받을 수 있습니다. 이는 고등학교 내신 및 생활기록부에 중요한 요소로 반영될 수 있으며, 대학 입시에서도 긍정적인 효과를 가져올 수 있습니다.",
+    requirementsTitle: "봉사활동 인정 요건",
+    requirements: [
+      { label: "최소 시간 기준", text: "1회 참여 시 최소 1시간 이상 활동해야 봉사시간으로 인정됩니다." },
+      { label: "1일 최대 인정 시간", text: "하루에 인정되는 봉사시간은 최대 4시간 이내입니다." },
+      { label: "활동 가능 기관", text: "영리 목적 기관, 종교적·정치적 목적 기관, 공익에 반하는 기관에서의 봉사활동은 인정되지 않습니다. 센터에서 진행하는 로봇 재능기부 활동은 공익성과 교육적 목적을 갖추고 있어 공식적으로 인정됩니다." },
+      { label: "해외 봉사활동", text: "해외에서 진행된 봉사활동은 학교생활기록부에 기재되지 않으며, 원칙적으로 인정되지 않습니다." },
+      { label: "봉사활동 실적의 인정 방법", text: "학교장이 추천하거나 허가한 봉사활동만 생활기록부에 기재할 수 있습니다. 1365 봉사 포털을 통한 등록 시 반드시 사전 상담 및 확인 절차가 필요합니다." },
+    ],
+    centerTitle: "센터에서의 혜택",
+    center: "센터에서 로봇교육 및 재능기부 활동에 참여하면 위 기준에 따라 봉사활동 점수를 공식적으로 인정받을 수 있습니다.",
+    highlight: {
+      before: "학생들은 단순 봉사활동이 아닌 ",
+      strong: "전문적 재능기부(로봇, 코딩, 교육 보조 등)",
+      after: "를 통해 자신만의 특색 있는 봉사 실적을 쌓을 수 있으며, 이는 학교생활기록부에 긍정적으로 반영됩니다.",
+    },
+    confirm: "확인",
+  },
+
+  addressSearch: {
+    title: "주소 검색",
+    placeholder: "도로명, 건물번호, 지번 또는 우편번호",
+    hint: "예: 청라커낼로 252, 별내동 1003, 22739",
+    search: "검색",
+    searching: "검색 중...",
+    noResults: "검색 결과가 없습니다. 검색어를 바꾸거나 주소를 직접 입력해주세요.",
+    failed: "주소를 검색하지 못했습니다. 주소를 직접 입력해주세요.",
+    road: "도로명",
+    jibun: "지번",
+    close: "닫기",
+  },
+
+  privacy: {
+    title: "개인정보 수집·이용 동의",
+    intro: "국제청소년로봇연맹 로봇봉사단은 입회 신청을 처리하기 위해 아래와 같이 개인정보를 수집·이용합니다.",
+    items: [
+      { label: "수집·이용 목적", text: "입회 신청 접수 및 심사, 회원 관리, 봉사활동 안내 및 봉사활동 확인서 발급" },
+      { label: "수집 항목", text: "성명(한글·영문), 생년월일, 성별, 학년, 휴대전화 번호, 이메일, 주소, 사진, 서명, 보호자의 성명·관계·휴대전화 번호" },
+      { label: "보유 및 이용 기간", text: "회원 탈퇴 시까지. 탈퇴 후에는 지체 없이 파기하며, 관계 법령에 따라 보존해야 하는 경우에는 해당 기간 동안 보관합니다." },
+      { label: "동의를 거부할 권리", text: "개인정보 수집·이용에 동의하지 않을 수 있으나, 동의하지 않으면 입회 신청을 할 수 없습니다." },
+    ],
+    note: "만 14세 미만 신청자의 개인정보는 법정대리인(보호자)의 동의를 받아 수집합니다.",
+  },
+
+  promotion: {
+    title: "홍보용 사진·영상 활용 동의",
+    intro: "봉사활동 중 촬영한 사진과 영상을 연맹 홈페이지, SNS, 소식지 등에서 로봇봉사단을 알리는 데 활용하고자 합니다.",
+    items: [
+      { label: "활용 목적", text: "로봇봉사단 활동 소개 및 홍보" },
+      { label: "활용 항목", text: "봉사활동 중 촬영한 사진·영상 (성명 등 다른 개인정보는 함께 공개하지 않습니다)" },
+      { label: "보유 및 이용 기간", text: "동의를 철회할 때까지" },
+      { label: "동의를 거부할 권리", text: "동의하지 않아도 입회 신청과 봉사활동에 아무런 불이익이 없습니다." },
+    ],
+    note: "동의는 언제든지 연맹에 요청하여 철회할 수 있습니다.",
+  },
+
+  consent: {
+    scrollToEnd: "끝까지 읽으면 동의할 수 있습니다.",
+    agree: "동의",
+    close: "닫기",
+    recordsTitle: "동의 기록",
+    version: "버전",
+    agreedAt: "동의 일시",
+    contentHash: "문서 해시",
+    recordFailed: "동의 기록을 만들지 못했습니다. 보안 연결(https)로 접속했는지 확인한 뒤 다시 시도해주세요.",
+  },
+
+  signaturePad: {
+    hint: "마우스, 손가락 또는 펜으로 서명하세요.",
+    tooShort: "서명이 너무 짧습니다. 다시 서명해주세요.",
+    undo: "되돌리기",
+    clear: "지우기",
+  },
+
+  photoEditor: {
+    title: "사진 편집",
+    hint: "드래그하여 위치를 옮기고, 확대/축소로 얼굴이 잘 보이도록 맞춰주세요.",
+    zoom: "확대",
+    position: "사진 위치 (방향키로 이동)",
+    cancel: "취소",
+    confirm: "확인",
+  },
+
+  photo: {
+    notImage: "이미지 파일만 업로드할 수 있습니다.",
+    tooLarge: `사진 파일이 너무 큽니다. ${PHOTO_SETTINGS.maxInputBytes / 1024 / 1024}MB 이하의 사진을 선택해주세요.`,
+    heicUnsupported: "이 브라우저에서는 HEIC 사진을 열 수 없습니다. JPG 또는 PNG로 변환한 후 업로드해주세요.",
+    unreadable: "사진을 읽을 수 없습니다. 다른 사진을 선택해주세요.",
+    tooSmall: `사진 해상도가 너무 낮습니다. ${PHOTO_SETTINGS.minWidth}×${PHOTO_SETTINGS.minHeight} 이상의 사진을 선택해주세요.`,
+    processingFailed: "사진을 처리할 수 없습니다.",
+    tooDetailed: `사진을 ${PHOTO_SETTINGS.maxOutputBytes / 1024}KB 이하로 줄일 수 없습니다. 배경이 단순한 다른 사진을 선택해주세요.`,
+  },
+
+  roster: {
+    count: (count: number) => `총 ${count}명`,
+    import: "CSV/Excel 가져오기",
+    addMember: "+ 단원 추가",
+    photo: "사진",
+    select: "선택",
+    remove: "삭제",
+    empty: "단원을 추가하거나 명단 파일을 가져오세요.",
+    photoAlt: (name: string) => `${name} 사진`,
+    cellLabel: (row: number, field: string) => `${row}번 단원 ${field}`,
+    noMembers: "단원을 1명 이상 추가해주세요.",
+    fileEmpty: "명단 파일에 단원 정보가 없습니다.",
+    noSheet: "명단 파일에 시트가 없습니다.",
+    noColumns: (example: string) => `명단에서 인식할 수 있는 열이 없습니다. 첫 행에 "${example}" 등의 항목명을 입력해주세요.`,
+    unsupportedFile: "CSV 또는 Excel(.xlsx) 파일만 가져올 수 있습니다.",
+  },
+
+  submission: {
+    unreachable: "신청서 접수 서버에 연결할 수 없습니다. 잠시 후 다시 시도해주세요.",
+    failed: "신청서를 접수하지 못했습니다.",
+    invalid: "입력값을 확인해주세요.",
+    memberFailed: (name: string, reason: string, submitted: number) =>
+      `${name} 단원의 신청서를 접수하지 못했습니다: ${reason}` + (submitted > 0 ? ` 앞서 접수된 ${submitted}명은 명단에서 제외되었습니다.` : ''),
+  },
+
+  payload: {
+    unreachable: "신청서 데이터 서명 서버에 연결할 수 없습니다. 잠시 후 다시 시도해주세요.",
+    failed: "신청서 데이터에 서명하거나 확인하지 못했습니다.",
+    notConfigured: "서버에 서명 키가 설정되지 않아 신청서 데이터를 서명하거나 확인할 수 없습니다.",
+    unavailable: "신청서 데이터를 확인할 서버가 설정되지 않았습니다.",
+    invalidFormat: "신청서 데이터 형식이 올바르지 않습니다.",
+    signatureMismatch: "서명이 일치하지 않습니다. 내보낸 뒤 수정되었거나 다른 서버에서 서명된 파일입니다.",
+    unsupportedVersion: "지원하지 않는 신청서 데이터 버전입니다.",
+    notJpeg: "JPEG 파일이 아닙니다.",
+  },
+
+  applicationImport: {
+    title: "신청서 가져오기",
+    intro: "내보낸 입회 신청서(PDF, JPEG) 또는 출력본을 촬영한 사진을 선택하면 신청서 데이터를 읽어 하나의 CSV로 모읍니다.",
+    dropZone: "파일을 끌어다 놓거나 클릭하여 선택하세요",
+    reading: "파일을 읽는 중...",
+    multiple: "여러 파일을 한 번에 선택할 수 있습니다.",
+    verifiedCount: "읽음",
+    failedCount: "실패",
+    countUnit: "건",
+    clear: "목록 비우기",
+    downloadCsv: "CSV 내려받기",
+    columns: ["파일명", "성명", "소속 단체명", "학년", "결과"],
+    empty: "가져온 파일이 없습니다.",
+    verified: (source: string) => `확인됨 (${source})`,
+    unverified: (source: string) => `서명 미확인 (${source})`,
+    unverifiedNote: "서명을 확인하지 못한 신청서는 내보낸 뒤 수정되었을 수 있으니 원본과 대조해주세요.",
+    sources: { metadata: "파일 데이터", qr: "QR 코드" },
+    duplicate: "이미 가져온 신청서입니다.",
+    unsupportedFile: "PDF 또는 이미지 파일만 가져올 수 있습니다.",
+    noData: "신청서 데이터를 찾을 수 없습니다. 이 양식에서 내보낸 파일인지 확인해주세요.",
+    csvFileName: (date: string) => `가져온_입회신청서_${date}.csv`,
+  },
+
+  phoneVerification: {
+    request: "인증번호 받기",
+    resend: "인증번호 다시 받기",
+    resendIn: (seconds: number) => `${seconds}초 후 다시 받을 수 있습니다.`,
+    code: "인증번호",
+    codePlaceholder: "6자리 숫자",
+    confirm: "확인",
+    sent: (phone: string) => `${phone}(으)로 인증번호를 보냈습니다.`,
+    verified: "보호자 휴대전화 인증이 완료되었습니다.",
+    smsText: (code: string) => `[국제청소년연맹 로봇봉사단] 보호자 휴대전화 인증번호는 ${code}입니다.`,
+    unreachable: "인증 서버에 연결할 수 없습니다. 잠시 후 다시 시도해주세요.",
+    failed: "휴대전화 인증을 진행하지 못했습니다.",
+    cooldown: (seconds: number) => `인증번호는 ${seconds}초 후에 다시 받을 수 있습니다.`,
+    tooManyRequests: "인증번호 요청 횟수를 초과했습니다. 1시간 후 다시 시도해주세요.",
+    expired: "인증번호가 만료되었습니다. 인증번호를 다시 받아주세요.",
+    wrongCode: (remaining: number) => `인증번호가 일치하지 않습니다. (남은 입력 횟수 ${remaining}회)`,
+    locked: "인증번호를 여러 번 잘못 입력했습니다. 인증번호를 다시 받아주세요.",
+  },
+
+  validation: {
+    affiliationRequired: "소속 단체명을 선택해주세요.",
+    affiliationInvalid: "소속 단체명을 다시 선택해주세요.",
+    nameKoreanRequired: "한글 성명을 입력해주세요.",
+    nameKoreanInvalid: "한글 성명은 한글 2~10자로 입력해주세요.",
+    nameEnglishRequired: "영문 성명을 입력해주세요.",
+    nameEnglishInvalid: "영문, 공백, 하이픈(-)만 입력 가능합니다.",
+    dateOfBirthRequired: "생년월일을 입력해주세요.",
+    dateOfBirthInvalid: "올바른 생년월일을 입력해주세요.",
+    gradeOverrideInvalid: "학년을 다시 선택해주세요.",
+    gradeOverrideReasonRequired: "학년을 직접 입력한 사유를 입력해주세요.",
+    preschoolNotEligible: "초등학교 1학년부터 신청할 수 있습니다.",
+    ageTooOld: (max: number) => `만 ${max}세 이하만 신청할 수 있습니다. 생년월일을 확인해주세요.`,
+    membershipTypeRequired: "가입 구분을 선택해주세요.",
+    membershipTypeInvalid: "가입 구분을 다시 선택해주세요.",
+    genderRequired: "성별을 선택해주세요.",
+    genderInvalid: "성별을 다시 선택해주세요.",
+    emailRequired: "이메일 주소를 입력해주세요.",
+    emailInvalid: "올바른 이메일 주소를 입력해주세요.",
+    phoneApplicantRequired: "신청자 핸드폰 번호를 입력해주세요.",
+    mobileInvalid: MOBILE_FORMAT_MESSAGE,
+    phoneInvalid: "02-123-4567처럼 지역번호를 포함한 전화번호를 입력해주세요.",
+    postalCodeRequired: "주소 검색으로 우편번호를 입력해주세요.",
+    postalCodeInvalid: "우편번호는 숫자 5자리입니다.",
+    roadAddressRequired: "도로명 주소를 입력해주세요.",
+    guardianRelationshipRequired: "보호자와의 관계를 선택해주세요.",
+    guardianRelationshipInvalid: "보호자와의 관계를 다시 선택해주세요.",
+    guardianRelationshipOtherRequired: "보호자와의 관계를 입력해주세요.",
+    guardianNameRequired: "보호자 성명을 입력해주세요.",
+    guardianPhoneRequired: "보호자 핸드폰 번호를 입력해주세요.",
+    guardianPhoneUnverified: "보호자 휴대전화 인증을 완료해주세요.",
+    signatureRequired: "지원자 서명을 해주세요.",
+    guardianSignatureRequired: "보호자 서명을 해주세요.",
+    additionalGuardiansInvalid: "추가 보호자 정보를 확인해주세요.",
+    consentsRequired: "서약서와 개인정보 수집·이용에 동의해주셔야 제출이 가능합니다.",
+    consentsInvalid: "동의 기록을 확인할 수 없습니다. 서약서와 개인정보 수집·이용 동의를 다시 진행해주세요.",
+    profileImageRequired: "프로필 사진을 업로드해주세요.",
+    profileImageInvalid: "프로필 사진 형식이 올바르지 않습니다.",
+    signatureImageInvalid: "서명 이미지 형식이 올바르지 않습니다.",
+    coordinatorNameRequired: "담당자 성명을 입력해주세요.",
+    coordinatorPhoneRequired: "담당자 연락처를 입력해주세요.",
+    coordinatorEmailRequired: "담당자 이메일 주소를 입력해주세요.",
+    coordinatorInvalid: "단체 담당자 정보를 확인해주세요.",
+  },
+
+  memberCard: {
+    organization: "국제청소년로봇연맹 로봇봉사단",
+    memberNumber: "회원번호 Member No.",
+    issuedAt: (date: string) => `발급일 ${date}`,
+    noPhoto: "사진 없음",
+    notice: [
+      "이 카드는 국제청소년로봇연맹 로봇봉사단의 회원증입니다.",
+      "봉사활동에 참여할 때 반드시 지참해주세요.",
+      "습득하신 분은 아래 센터로 보내주시기 바랍니다.",
+    ],
+    canvasUnavailable: "회원증을 그릴 수 없습니다.",
+    imageFailed: "회원증 이미지를 만들지 못했습니다.",
+    frontFileName: (memberNumber: string) => `${memberNumber}_앞면.png`,
+    backFileName: (memberNumber: string) => `${memberNumber}_뒷면.png`,
+    documentTitle: (memberNumber: string) => `${memberNumber} 회원증`,
+    sheetTitle: "회원증 일괄 인쇄",
+  },
+
+  admin: {
+    unreachable: "서버에 연결할 수 없습니다.",
+    failed: "요청을 처리하지 못했습니다.",
+    loginTitle: "관리자 로그인",
+    username: "아이디",
+    password: "비밀번호",
+    login: "로그인",
+    logout: "로그아웃",
+    title: "입회 신청서 관리",
+    allAffiliations: "전체 소속",
+    inactive: (name: string) => `${name} (비활성)`,
+    allMembershipTypes: "전체 구분",
+    grade: "학년",
+    allGrades: "전체 학년",
+    submittedFrom: "접수일 시작",
+    submittedTo: "접수일 끝",
+    count: (count: number) => `총 ${count}건`,
+    exportCsv: "CSV 내보내기",
+    exportExcel: "Excel 내보내기",
+    listFileName: (date: string, extension: string) => `입회신청서_목록_${date}.${extension}`,
+    columns: ["접수번호", "접수일시", "성명", "소속 단체명", "가입 구분", "학년", "상태", "회원번호"],
+    empty: "조건에 맞는 신청서가 없습니다.",
+    statuses: { received: "접수", approved: "승인", rejected: "반려", member: "정회원" },
+    submittedAt: (date: string) => `${date} 접수`,
+    currentStatus: "현재 상태",
+    close: "닫기",
+    guardianPhoneVerified: "보호자 휴대전화 인증",
+    coordinator: "단체 담당자",
+    additionalGuardians: "추가 보호자",
+    gradeOverridden: (calculated: string) => `직접 입력 · 자동 계산 ${calculated}`,
+    consentRecords: "동의 기록",
+    photoAlt: (name: string) => `${name} 사진`,
+    noPhoto: "사진 없음",
+    none: "없음",
+    changeStatus: "상태 변경",
+    noTransitions: "더 이상 변경할 수 있는 상태가 없습니다.",
+    notes: "내부 메모",
+    noNotes: "메모가 없습니다.",
+    notePlaceholder: "메모 입력",
+    addNote: "추가",
+    memberCard: "회원증",
+    memberNumber: "회원번호",
+    issueMemberNumber: "회원번호 발급",
+    issuedOnApproval: "승인하면 회원번호가 발급됩니다.",
+    downloadPdf: "PDF 내려받기",
+    downloadPng: "PNG 내려받기",
+    printCards: (count: number) => `회원증 일괄 인쇄 (${count})`,
+    printingCards: "회원증 만드는 중...",
+    cardFileName: (memberNumber: string, extension: string) => `${memberNumber}_회원증.${extension}`,
+    cardSheetFileName: (date: string) => `회원증_일괄인쇄_${date}.pdf`,
+  },
+
+  pdf: {
+    address: "주소",
+    payloadCaption: "신청서 데이터 QR 코드 (접수 담당자용)",
+    fontLoadFailed: "PDF에 사용할 글꼴을 불러오지 못했습니다. 잠시 후 다시 시도해주세요.",
+  },
+};
+
+export type Messages = typeof ko;
+export type ValidationMessages = Messages['validation'];
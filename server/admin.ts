@@ -0,0 +1,154 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Affiliation, ApplicationFilters, ApplicationRecord, ApplicationStatus, ApplicationSummary } from '../types';
+import { APPLICATION_STATUS_LABELS, MEMBER_STATUSES, STATUS_TRANSITIONS } from '../constants';
+import { seoulDateString } from '../utils/date';
+import { effectiveGrade } from '../utils/grade';
+import { HttpError, readJsonObject, sendJson } from './http';
+import { DEFAULT_MEMBER_NUMBER_FORMAT, formatMemberNumber, memberNumberSeries, parseMemberNumberFormat } from './memberNumber';
+import type { ApplicationStore, StoredApplication } from './store';
+
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+const ADMIN_USERNAME = process.env.ADMIN_USERNAME ?? 'admin';
+// Without a configured password a random one is generated per run, so a fresh install is never open.
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD ?? randomBytes(9).toString('base64url');
+
+if (!process.env.ADMIN_PASSWORD) {
+  console.log(`ADMIN_PASSWORD is not set; admin login for this run: ${ADMIN_USERNAME} / ${ADMIN_PASSWORD}`);
+}
+
+const MEMBER_NUMBER_FORMAT = parseMemberNumberFormat(process.env.MEMBER_NUMBER_FORMAT ?? DEFAULT_MEMBER_NUMBER_FORMAT);
+
+const sessions = new Map<string, { username: string; expiresAt: number }>();
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const authenticate = (req: IncomingMessage): string => {
+  const token = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+  const session = sessions.get(token);
+  if (!session || session.expiresAt < Date.now()) {
+    sessions.delete(token);
+    throw new HttpError(401, '로그인이 필요합니다.');
+  }
+  return session.username;
+};
+
+const toSummary = ({ applicationNumber, submittedAt, status, memberNumber, formData, additionalGuardians = [], consents = [] }: StoredApplication): ApplicationSummary => ({
+  applicationNumber,
+  submittedAt,
+  status,
+  memberNumber,
+  grade: effectiveGrade(formData),
+  formData: { ...formData, signature: '', guardianSignature: '' },
+  additionalGuardians,
+  consents,
+});
+
+export const matchesFilters = (summary: ApplicationSummary, filters: ApplicationFilters): boolean => {
+  // Compared as YYYY-MM-DD in Korea, the same day as in the application number.
+  const day = seoulDateString(new Date(summary.submittedAt));
+  return (!filters.affiliation || summary.formData.affiliation === filters.affiliation)
+    && (!filters.membershipType || summary.formData.membershipType === filters.membershipType)
+    && (!filters.grade || summary.grade === filters.grade)
+    && (!filters.from || day >= filters.from)
+    && (!filters.to || day <= filters.to);
+};
+
+export const createAdminRoutes = (store: ApplicationStore, affiliations: Affiliation[]) => {
+  // Keeps an existing number, so records approved before a format change keep theirs.
+  const withMemberNumber = async (record: StoredApplication, nextCount: (key: string) => Promise<number>): Promise<StoredApplication> => {
+    if (record.memberNumber) return record;
+    const center = affiliations.find(affiliation => affiliation.id === record.formData.affiliation)?.code;
+    if (!center) throw new HttpError(409, '소속 단체 코드를 찾을 수 없어 회원번호를 발급할 수 없습니다.');
+    const date = new Date();
+    const series = memberNumberSeries(MEMBER_NUMBER_FORMAT, center, date);
+    return { ...record, memberNumber: formatMemberNumber(series, await nextCount(`member:${series}`)), memberNumberIssuedAt: date.toISOString() };
+  };
+
+  const withImages = async (record: StoredApplication): Promise<ApplicationRecord> => ({
+    ...record,
+    profileImage: await store.readImage(record.profileImage),
+    formData: {
+      ...record.formData,
+      signature: (await store.readImage(record.formData.signature)) ?? '',
+      guardianSignature: (await store.readImage(record.formData.guardianSignature)) ?? '',
+    },
+  });
+
+  const login = async (req: IncomingMessage, res: ServerResponse) => {
+    const { username, password } = await readJsonObject(req);
+    if (!safeEqual(String(username ?? ''), ADMIN_USERNAME) || !safeEqual(String(password ?? ''), ADMIN_PASSWORD)) {
+      throw new HttpError(401, '아이디 또는 비밀번호가 올바르지 않습니다.');
+    }
+    const token = randomBytes(24).toString('hex');
+    sessions.set(token, { username: ADMIN_USERNAME, expiresAt: Date.now() + SESSION_TTL_MS });
+    sendJson(res, 200, { token });
+  };
+
+  const list = async (res: ServerResponse, url: URL) => {
+    const filters: ApplicationFilters = Object.fromEntries(url.searchParams);
+    const summaries = (await store.list()).map(toSummary).filter(summary => matchesFilters(summary, filters));
+    sendJson(res, 200, summaries);
+  };
+
+  const show = async (res: ServerResponse, applicationNumber: string) => {
+    const record = await store.get(applicationNumber);
+    if (!record) throw new HttpError(404, '신청서를 찾을 수 없습니다.');
+    sendJson(res, 200, await withImages(record));
+  };
+
+  const changeStatus = async (req: IncomingMessage, res: ServerResponse, applicationNumber: string) => {
+    const { status } = (await readJsonObject(req)) as { status?: ApplicationStatus };
+    let rejected: ApplicationStatus | null = null;
+    const updated = await store.update(applicationNumber, (record, nextCount) => {
+      if (!status || !STATUS_TRANSITIONS[record.status].includes(status)) {
+        rejected = record.status;
+        return record;
+      }
+      return MEMBER_STATUSES.includes(status) ? withMemberNumber({ ...record, status }, nextCount) : { ...record, status };
+    });
+    if (!updated) throw new HttpError(404, '신청서를 찾을 수 없습니다.');
+    if (rejected) throw new HttpError(409, `현재 상태(${APPLICATION_STATUS_LABELS[rejected]})에서는 이 상태로 변경할 수 없습니다.`);
+    sendJson(res, 200, await withImages(updated));
+  };
+
+  // For records approved before member numbers were allocated.
+  const issueMemberNumber = async (res: ServerResponse, applicationNumber: string) => {
+    const updated = await store.update(applicationNumber, (record, nextCount) => {
+      if (!MEMBER_STATUSES.includes(record.status)) throw new HttpError(409, '승인된 신청서에만 회원번호를 발급할 수 있습니다.');
+      return withMemberNumber(record, nextCount);
+    });
+    if (!updated) throw new HttpError(404, '신청서를 찾을 수 없습니다.');
+    sendJson(res, 200, await withImages(updated));
+  };
+
+  const addNote = async (req: IncomingMessage, res: ServerResponse, applicationNumber: string, author: string) => {
+    const { text } = await readJsonObject(req);
+    if (typeof text !== 'string' || !text.trim()) throw new HttpError(400, '메모 내용을 입력해주세요.');
+    const note = { text: text.trim(), author, createdAt: new Date().toISOString() };
+    const updated = await store.update(applicationNumber, record => ({ ...record, notes: [...record.notes, note] }));
+    if (!updated) throw new HttpError(404, '신청서를 찾을 수 없습니다.');
+    sendJson(res, 200, await withImages(updated));
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method === 'POST' && url.pathname === '/api/admin/login') {
+      await login(req, res);
+      return;
+    }
+    const author = authenticate(req);
+    const [, , , resource, applicationNumber, action] = url.pathname.split('/');
+    if (resource !== 'applications') throw new HttpError(404, '요청한 경로를 찾을 수 없습니다.');
+
+    if (req.method === 'GET' && !applicationNumber) await list(res, url);
+    else if (req.method === 'GET' && applicationNumber && !action) await show(res, applicationNumber);
+    else if (req.method === 'PATCH' && applicationNumber && !action) await changeStatus(req, res, applicationNumber);
+    else if (req.method === 'POST' && applicationNumber && action === 'notes') await addNote(req, res, applicationNumber, author);
+    else if (req.method === 'POST' && applicationNumber && action === 'member-number') await issueMemberNumber(res, applicationNumber);
+    else throw new HttpError(404, '요청한 경로를 찾을 수 없습니다.');
+  };
+};
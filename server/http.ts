@@ -0,0 +1,45 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { FormErrors } from '../types';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public errors?: FormErrors) {
+    super(message);
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+export const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, '요청 크기가 너무 큽니다.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, '요청 본문이 올바른 JSON이 아닙니다.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// For handlers that read named fields: null, arrays and bare values are rejected up front.
+export const readJsonObject = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const body = await readJson(req);
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new HttpError(400, '요청 본문은 JSON 객체여야 합니다.');
+  return body as Record<string, unknown>;
+};
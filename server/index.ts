@@ -0,0 +1,234 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { ApplicationPayload, ConsentRecord, FormData, GroupCoordinator, Guardian, Language, SubmissionReceipt } from '../types';
+import { MAX_ADDITIONAL_GUARDIANS } from '../constants';
+import { languageFromHeader, MESSAGES, type Messages } from '../locales';
+import { affiliationName, parseAffiliationRegistry } from '../utils/affiliations';
+import { CONSENT_DOCUMENT_IDS, REQUIRED_CONSENTS, verifyConsent } from '../utils/consent';
+import { effectiveGrade } from '../utils/grade';
+import { requiresGuardian } from '../utils/guardians';
+import { toE164 } from '../utils/phone';
+import { FIELD_RULES, validateCoordinator, validateForm, validateGuardians } from '../utils/validation';
+import { createAdminRoutes } from './admin';
+import { HttpError, readJson, sendJson } from './http';
+import { PayloadSigner } from './payloadSigning';
+import { PhoneVerificationService } from './phoneVerification';
+import { smsProvider } from './sms';
+import { ApplicationStore, parseImageDataUrl, type ValidatedSubmission } from './store';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = path.resolve(process.env.DATA_DIR ?? 'server/data');
+const AFFILIATIONS_FILE = path.resolve(process.env.AFFILIATIONS_FILE ?? 'public/affiliations.json');
+// When set, minors' applications are only accepted with a verified guardian mobile number.
+const REQUIRE_PHONE_VERIFICATION = process.env.REQUIRE_PHONE_VERIFICATION === 'true';
+
+// Same registry the form loads; read once at startup so a broken file fails fast.
+const affiliations = parseAffiliationRegistry(JSON.parse(readFileSync(AFFILIATIONS_FILE, 'utf8')));
+
+const store = new ApplicationStore(DATA_DIR);
+const handleAdminRequest = createAdminRoutes(store, affiliations);
+const phoneVerification = new PhoneVerificationService(smsProvider);
+const payloadSigner = new PayloadSigner(process.env.PAYLOAD_SIGNING_KEY);
+if (!process.env.PAYLOAD_SIGNING_KEY) console.warn('PAYLOAD_SIGNING_KEY가 설정되지 않아 신청서 데이터 서명과 가져오기를 사용할 수 없습니다.');
+
+const GUARDIAN_FIELDS = ['relationship', 'relationshipOther', 'name', 'phone'] as const;
+
+const toGuardian = (raw: unknown): Guardian => {
+  const value = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : randomUUID(),
+    ...Object.fromEntries(GUARDIAN_FIELDS.map(field => [field, typeof value[field] === 'string' ? value[field] : ''])),
+  } as Guardian;
+};
+
+const CONSENT_FIELDS = ['documentId', 'version', 'language', 'contentHash', 'agreedAt'] as const;
+
+const toConsentRecord = (raw: unknown): ConsentRecord => {
+  const value = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  return Object.fromEntries(CONSENT_FIELDS.map(field => [field, typeof value[field] === 'string' ? value[field] : ''])) as unknown as ConsentRecord;
+};
+
+// Adults have no guardian section, so anything sent for them is dropped.
+const toAdditionalGuardians = (raw: unknown, formData: FormData): Guardian[] =>
+  Array.isArray(raw) && requiresGuardian(formData.dateOfBirth) ? raw.slice(0, MAX_ADDITIONAL_GUARDIANS).map(toGuardian) : [];
+
+// One record per document; a repeated document is kept only once.
+const toConsentRecords = (raw: unknown): ConsentRecord[] =>
+  Array.isArray(raw)
+    ? raw.map(toConsentRecord)
+      .filter((record, index, records) => records.findIndex(other => other.documentId === record.documentId) === index)
+      .slice(0, CONSENT_DOCUMENT_IDS.length)
+    : [];
+
+// Every required document must be present, and every record must match the text this server would have shown.
+const hasValidConsents = async (consents: ConsentRecord[]): Promise<boolean> =>
+  REQUIRED_CONSENTS.every(id => consents.some(record => record.documentId === id))
+  && (await Promise.all(consents.map(verifyConsent))).every(Boolean);
+
+const COORDINATOR_FIELDS = ['name', 'phone', 'email'] as const;
+
+const toCoordinator = (raw: unknown): GroupCoordinator => {
+  const value = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  return Object.fromEntries(COORDINATOR_FIELDS.map(field => [field, typeof value[field] === 'string' ? value[field] : ''])) as unknown as GroupCoordinator;
+};
+
+// Group members sign their printed forms, so their submissions carry the coordinator instead of signatures.
+const GROUP_MEMBER_FIELDS = (Object.keys(FIELD_RULES) as (keyof FormData)[]).filter(field => field !== 'signature' && field !== 'guardianSignature');
+
+// Runs the same field rules as the browser, plus checks that images really are PNG/JPEG data URLs.
+const validateSubmission = async (body: unknown, language: Language): Promise<ValidatedSubmission> => {
+  const messages = MESSAGES[language];
+  const submission = body as { formData?: Record<string, unknown>; profileImage?: unknown; additionalGuardians?: unknown; consents?: unknown; guardianPhoneVerificationId?: unknown; coordinator?: unknown } | null;
+  if (!submission || typeof submission.formData !== 'object' || submission.formData === null) {
+    throw new HttpError(400, 'formData가 없습니다.');
+  }
+  // Keep only known fields and coerce anything that isn't a string to empty, so the rules see well-formed input.
+  const raw = submission.formData;
+  const formData = Object.fromEntries(
+    Object.keys(FIELD_RULES).map(field => [field, typeof raw[field] === 'string' ? raw[field] : '']),
+  ) as unknown as FormData;
+  const profileImage = typeof submission.profileImage === 'string' ? submission.profileImage : null;
+  const additionalGuardians = toAdditionalGuardians(submission.additionalGuardians, formData);
+  const consents = toConsentRecords(submission.consents);
+  const context = { profileImage, affiliations, messages: messages.validation };
+  const isGroup = formData.membershipType === '단체';
+  const coordinator = isGroup ? toCoordinator(submission.coordinator) : undefined;
+  if (coordinator && Object.values(validateCoordinator(coordinator, context)).some(Boolean)) {
+    throw new HttpError(422, messages.validation.coordinatorInvalid);
+  }
+  const errors = isGroup ? validateForm(formData, context, GROUP_MEMBER_FIELDS) : validateForm(formData, context);
+  if (Object.values(validateGuardians(additionalGuardians, formData, context)).some(guardianErrors => Object.keys(guardianErrors).length > 0)) {
+    errors.additionalGuardians = messages.validation.additionalGuardiansInvalid;
+  }
+  const guardianPhoneVerifiedAt = requiresGuardian(formData.dateOfBirth)
+    ? phoneVerification.verifiedAt(typeof submission.guardianPhoneVerificationId === 'string' ? submission.guardianPhoneVerificationId : undefined, formData.guardianPhone)
+    : null;
+  // Group members' guardians confirm by signing the printed form rather than with a code.
+  if (REQUIRE_PHONE_VERIFICATION && !isGroup && requiresGuardian(formData.dateOfBirth) && !errors.guardianPhone && !guardianPhoneVerifiedAt) {
+    errors.guardianPhone = messages.validation.guardianPhoneUnverified;
+  }
+  if (!(await hasValidConsents(consents))) errors.consents = messages.validation.consentsInvalid;
+  if (profileImage && !parseImageDataUrl(profileImage)) errors.profileImage = messages.validation.profileImageInvalid;
+  if (formData.signature && !parseImageDataUrl(formData.signature)) errors.signature = messages.validation.signatureImageInvalid;
+  if (formData.guardianSignature && !parseImageDataUrl(formData.guardianSignature)) errors.guardianSignature = messages.validation.signatureImageInvalid;
+  if (Object.keys(errors).length > 0) throw new HttpError(422, messages.submission.invalid, errors);
+  // Numbers are stored in E.164 whichever way they were typed.
+  return {
+    formData: { ...formData, phoneApplicant: toE164(formData.phoneApplicant) ?? '', guardianPhone: toE164(formData.guardianPhone) ?? '' },
+    profileImage,
+    additionalGuardians: additionalGuardians.map(guardian => ({ ...guardian, phone: toE164(guardian.phone) ?? '' })),
+    consents,
+    ...(guardianPhoneVerifiedAt && { guardianPhoneVerifiedAt }),
+    ...(coordinator && { coordinator: { ...coordinator, phone: toE164(coordinator.phone) ?? '' } }),
+  };
+};
+
+// Exported files carry every field except the images, so those are the fields checked before signing.
+const PAYLOAD_FIELDS = (Object.keys(FIELD_RULES) as (keyof FormData)[]).filter(field => !['signature', 'guardianSignature'].includes(field));
+
+// The endpoint is open to anyone, so only well-formed applications are signed and nothing is taken on trust:
+// the affiliation name comes from the registry, guardians and consents are checked as for a submission,
+// and the grade and issue time are set here.
+const toSignedPayload = async (body: unknown, messages: Messages): Promise<ApplicationPayload> => {
+  const raw = (body as { payload?: { formData?: Record<string, unknown>; additionalGuardians?: unknown; consents?: unknown } } | null)?.payload;
+  if (!raw || typeof raw.formData !== 'object' || raw.formData === null) throw new HttpError(400, 'payload가 없습니다.');
+  const rawFormData = raw.formData;
+  const formData = Object.fromEntries(
+    PAYLOAD_FIELDS.map(field => [field, typeof rawFormData[field] === 'string' ? rawFormData[field] : '']),
+  ) as unknown as ApplicationPayload['formData'];
+  const additionalGuardians = toAdditionalGuardians(raw.additionalGuardians, formData as FormData);
+  const consents = toConsentRecords(raw.consents);
+  const context = { profileImage: null, affiliations, messages: messages.validation };
+  const { profileImage: _profileImage, ...errors } = validateForm(formData as FormData, context, PAYLOAD_FIELDS);
+  if (Object.values(validateGuardians(additionalGuardians, formData as FormData, context)).some(guardianErrors => Object.keys(guardianErrors).length > 0)) {
+    errors.additionalGuardians = messages.validation.additionalGuardiansInvalid;
+  }
+  if (!(await hasValidConsents(consents))) errors.consents = messages.validation.consentsInvalid;
+  if (Object.keys(errors).length > 0) throw new HttpError(422, messages.submission.invalid, errors);
+  const now = new Date();
+  return {
+    format: 1,
+    issuedAt: now.toISOString(),
+    affiliationName: affiliationName(affiliations, formData.affiliation),
+    grade: effectiveGrade(formData as FormData, now),
+    formData,
+    additionalGuardians,
+    consents,
+  };
+};
+
+const handlePayload = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const messages = MESSAGES[languageFromHeader(req.headers['accept-language'])];
+  const body = await readJson(req);
+  if (url.pathname === '/api/payloads') {
+    sendJson(res, 201, payloadSigner.sign(await toSignedPayload(body, messages), messages));
+  } else if (url.pathname === '/api/payloads/verify') {
+    const token = (body as { token?: unknown } | null)?.token;
+    sendJson(res, 200, { payload: payloadSigner.verify(typeof token === 'string' ? token : '', messages) });
+  } else {
+    throw new HttpError(404, '요청한 경로를 찾을 수 없습니다.');
+  }
+};
+
+const handleSubmit = async (req: IncomingMessage, res: ServerResponse) => {
+  const submission = await validateSubmission(await readJson(req), languageFromHeader(req.headers['accept-language']));
+  const { applicationNumber, submittedAt } = await store.save(submission);
+  const receipt: SubmissionReceipt = { applicationNumber, submittedAt };
+  console.log(`접수 ${applicationNumber}`);
+  sendJson(res, 201, receipt);
+};
+
+const handlePhoneVerification = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const messages = MESSAGES[languageFromHeader(req.headers['accept-language'])];
+  const body = (await readJson(req) ?? {}) as { phone?: unknown; code?: unknown };
+  const confirmMatch = url.pathname.match(/^\/api\/phone-verifications\/([\w-]+)\/confirm$/);
+  if (url.pathname === '/api/phone-verifications') {
+    sendJson(res, 201, await phoneVerification.start(typeof body.phone === 'string' ? body.phone : '', messages));
+  } else if (confirmMatch) {
+    phoneVerification.confirm(confirmMatch[1], typeof body.code === 'string' ? body.code : '', messages);
+    sendJson(res, 200, { verified: true });
+  } else {
+    throw new HttpError(404, '요청한 경로를 찾을 수 없습니다.');
+  }
+};
+
+const server = createServer(async (req, res) => {
+  // The form may be served from a different origin (e.g. Vite on :5173) when the server runs standalone.
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  try {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method === 'GET' && url.pathname === '/api/health') {
+      sendJson(res, 200, { status: 'ok' });
+    } else if (req.method === 'POST' && url.pathname === '/api/applications') {
+      await handleSubmit(req, res);
+    } else if (req.method === 'POST' && url.pathname.startsWith('/api/phone-verifications')) {
+      await handlePhoneVerification(req, res, url);
+    } else if (req.method === 'POST' && url.pathname.startsWith('/api/payloads')) {
+      await handlePayload(req, res, url);
+    } else if (url.pathname.startsWith('/api/admin/')) {
+      await handleAdminRequest(req, res, url);
+    } else {
+      throw new HttpError(404, '요청한 경로를 찾을 수 없습니다.');
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { message: error.message, errors: error.errors });
+    } else {
+      console.error(error);
+      sendJson(res, 500, { message: '서버 오류가 발생했습니다.' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Submission server listening on http://localhost:${PORT} (data: ${DATA_DIR})`);
+});
@@ -0,0 +1,25 @@
+import { seoulDateString } from '../utils/date';
+
+// Member numbers are built from a format such as {center}-{year}-{seq:4}: {center} is the
+// affiliation's code, {year} the year of approval and {seq} a counter, zero-padded to the
+// given width, that restarts for every center and year.
+export const DEFAULT_MEMBER_NUMBER_FORMAT = '{center}-{year}-{seq:4}';
+
+const SEQUENCE_PATTERN = /\{seq(?::(\d+))?\}/;
+const PLACEHOLDER_PATTERN = /\{(\w+)(?::\d+)?\}/g;
+const PLACEHOLDERS = ['center', 'year', 'seq'];
+
+export const parseMemberNumberFormat = (format: string): string => {
+  const unknown = [...format.matchAll(PLACEHOLDER_PATTERN)].map(([, name]) => name).filter(name => !PLACEHOLDERS.includes(name));
+  if (unknown.length > 0) throw new Error(`회원번호 형식에 알 수 없는 항목이 있습니다: ${unknown.join(', ')}`);
+  if (!SEQUENCE_PATTERN.test(format)) throw new Error('회원번호 형식에는 {seq}가 있어야 합니다.');
+  return format;
+};
+
+// The format with the center and year filled in. Numbers in one series share a counter.
+// The year is the one in Korea, like the date in application numbers.
+export const memberNumberSeries = (format: string, center: string, date: Date): string =>
+  format.replace(/\{center\}/g, center).replace(/\{year\}/g, seoulDateString(date).slice(0, 4));
+
+export const formatMemberNumber = (series: string, sequence: number): string =>
+  series.replace(SEQUENCE_PATTERN, (_, width?: string) => String(sequence).padStart(Number(width ?? 0), '0'));
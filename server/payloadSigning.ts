@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import type { Messages } from '../locales';
+import type { ApplicationPayload, PayloadTokens } from '../types';
+import { PAYLOAD_PREFIX, parsePayloadJson, parsePayloadToken, toQrPayload } from '../utils/applicationPayload';
+import { HttpError } from './http';
+
+// "IYRF1.<deflated JSON>.<HMAC-SHA256>", both parts base64url. The key never leaves the
+// server, so a valid signature shows that this server issued the data.
+export class PayloadSigner {
+  constructor(private key: string | undefined) {}
+
+  private mac(body: string): Buffer {
+    return createHmac('sha256', this.key!).update(body).digest();
+  }
+
+  // Without a key nothing is signed or accepted, rather than falling back to a shared default.
+  private requireKey(messages: Messages) {
+    if (!this.key) throw new HttpError(503, messages.payload.notConfigured);
+  }
+
+  private encode(data: unknown): string {
+    const body = deflateRawSync(JSON.stringify(data)).toString('base64url');
+    return `${PAYLOAD_PREFIX}${body}.${this.mac(body).toString('base64url')}`;
+  }
+
+  sign(payload: ApplicationPayload, messages: Messages): PayloadTokens {
+    this.requireKey(messages);
+    return { token: this.encode(payload), qrToken: this.encode(toQrPayload(payload)) };
+  }
+
+  // The signature is checked before anything is decompressed or parsed.
+  verify(token: string, messages: Messages): ApplicationPayload {
+    this.requireKey(messages);
+    const text = messages.payload;
+    const parts = parsePayloadToken(token);
+    if (!parts?.signature) throw new HttpError(422, text.invalidFormat);
+    const { body, signature } = parts;
+    const expected = this.mac(body);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new HttpError(422, text.signatureMismatch);
+    }
+    const payload = parsePayloadJson(inflateRawSync(Buffer.from(body, 'base64url')).toString('utf8'));
+    if (!payload) throw new HttpError(422, text.unsupportedVersion);
+    return payload;
+  }
+}
@@ -0,0 +1,122 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { MESSAGES } from '../locales';
+import { PhoneVerificationService } from './phoneVerification';
+import type { SmsProvider } from './sms';
+
+const messages = MESSAGES.ko;
+const text = messages.phoneVerification;
+const PHONE = '010-1234-5678';
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// A service on a clock the test moves by hand, with an SMS provider that keeps the codes it was asked to send.
+const setup = () => {
+  let time = Date.parse('2026-10-19T09:00:00+09:00');
+  const sent: { to: string; code: string }[] = [];
+  const sms: SmsProvider = {
+    async send(to, message) {
+      sent.push({ to, code: message.match(/\d{6}/)![0] });
+    },
+  };
+  const service = new PhoneVerificationService(sms, () => time);
+  return {
+    service,
+    sent,
+    lastCode: () => sent[sent.length - 1].code,
+    advance: (ms: number) => { time += ms; },
+  };
+};
+
+const wrongCode = (code: string) => String((Number(code) + 1) % 10 ** 6).padStart(6, '0');
+
+describe('PhoneVerificationService.start', () => {
+  it('texts a six-digit code to the number in E.164', async () => {
+    const { service, sent } = setup();
+    const challenge = await service.start(PHONE, messages);
+    expect(sent).toEqual([{ to: '+821012345678', code: expect.stringMatching(/^\d{6}$/) }]);
+    expect(challenge.expiresAt).toBe('2026-10-19T00:05:00.000Z');
+    expect(challenge.resendAt).toBe('2026-10-19T00:01:00.000Z');
+  });
+
+  it('refuses landlines', async () => {
+    const { service, sent } = setup();
+    await expect(service.start('02-123-4567', messages)).rejects.toMatchObject({ status: 422, message: messages.validation.mobileInvalid });
+    expect(sent).toEqual([]);
+  });
+
+  it('makes the same number wait 60 seconds between codes', async () => {
+    const { service, advance } = setup();
+    await service.start(PHONE, messages);
+    advance(45 * SECOND);
+    await expect(service.start(PHONE, messages)).rejects.toMatchObject({ status: 429, message: text.cooldown(15) });
+    // Other numbers are not held up.
+    await expect(service.start('010-9999-8888', messages)).resolves.toBeDefined();
+    advance(15 * SECOND);
+    await expect(service.start(PHONE, messages)).resolves.toBeDefined();
+  });
+
+  it('sends at most five codes to a number in an hour', async () => {
+    const { service, sent, advance } = setup();
+    for (let i = 0; i < 5; i++) {
+      await service.start(PHONE, messages);
+      advance(MINUTE);
+    }
+    await expect(service.start(PHONE, messages)).rejects.toMatchObject({ status: 429, message: text.tooManyRequests });
+    expect(sent).toHaveLength(5);
+    // The first code leaves the window an hour after it was sent.
+    advance(55 * MINUTE);
+    await expect(service.start(PHONE, messages)).resolves.toBeDefined();
+  });
+});
+
+describe('PhoneVerificationService.confirm', () => {
+  it('marks the number verified with the right code', async () => {
+    const { service, lastCode, advance } = setup();
+    const { verificationId } = await service.start(PHONE, messages);
+    advance(MINUTE);
+    service.confirm(verificationId, lastCode(), messages);
+    expect(service.verifiedAt(verificationId, '+821012345678')).toBe('2026-10-19T00:01:00.000Z');
+    expect(service.verifiedAt(verificationId, '010-9999-8888')).toBeNull();
+  });
+
+  it('locks the code after five wrong attempts', async () => {
+    const { service, lastCode } = setup();
+    const { verificationId } = await service.start(PHONE, messages);
+    const wrong = wrongCode(lastCode());
+    for (const remaining of [4, 3, 2, 1]) {
+      expect(() => service.confirm(verificationId, wrong, messages)).toThrow(text.wrongCode(remaining));
+    }
+    expect(() => service.confirm(verificationId, wrong, messages)).toThrow(text.locked);
+    // Even the right code is refused once locked.
+    expect(() => service.confirm(verificationId, lastCode(), messages)).toThrow(text.locked);
+    expect(service.verifiedAt(verificationId, PHONE)).toBeNull();
+  });
+
+  it('expires codes after five minutes', async () => {
+    const { service, lastCode, advance } = setup();
+    const { verificationId } = await service.start(PHONE, messages);
+    advance(5 * MINUTE + SECOND);
+    expect(() => service.confirm(verificationId, lastCode(), messages)).toThrow(text.expired);
+  });
+
+  it('replaces a pending code when a new one is sent', async () => {
+    const { service, lastCode, advance } = setup();
+    const first = await service.start(PHONE, messages);
+    advance(MINUTE);
+    const second = await service.start(PHONE, messages);
+    expect(() => service.confirm(first.verificationId, lastCode(), messages)).toThrow(text.expired);
+    service.confirm(second.verificationId, lastCode(), messages);
+    expect(service.verifiedAt(second.verificationId, PHONE)).not.toBeNull();
+  });
+
+  it('keeps a verification for an hour', async () => {
+    const { service, lastCode, advance } = setup();
+    const { verificationId } = await service.start(PHONE, messages);
+    service.confirm(verificationId, lastCode(), messages);
+    advance(60 * MINUTE);
+    expect(service.verifiedAt(verificationId, PHONE)).not.toBeNull();
+    advance(SECOND);
+    expect(service.verifiedAt(verificationId, PHONE)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { createHash, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import type { Messages } from '../locales';
+import type { PhoneVerificationChallenge } from '../types';
+import { isMobileNumber, toE164 } from '../utils/phone';
+import { HttpError } from './http';
+import type { SmsProvider } from './sms';
+
+const CODE_LENGTH = 6;
+const CODE_TTL_MS = 5 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+// At most this many codes per number within the window, however they are spaced out.
+const MAX_SENDS = 5;
+const SEND_WINDOW_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+// Long enough to finish the remaining steps of the form after verifying.
+const VERIFIED_TTL_MS = 60 * 60 * 1000;
+
+interface Verification {
+  phone: string;
+  codeHash: Buffer;
+  expiresAt: number;
+  attempts: number;
+  verifiedAt?: number;
+}
+
+const hashCode = (code: string) => createHash('sha256').update(code).digest();
+
+// One-time codes are kept in memory only; a restart simply asks applicants to request a new code.
+export class PhoneVerificationService {
+  private verifications = new Map<string, Verification>();
+  // Send times per number, for the cooldown and the hourly limit.
+  private sends = new Map<string, number[]>();
+
+  // `now` is the clock, replaceable in tests.
+  constructor(private sms: SmsProvider, private now: () => number = Date.now) {}
+
+  private prune(now: number) {
+    for (const [id, verification] of this.verifications) {
+      const end = verification.verifiedAt ? verification.verifiedAt + VERIFIED_TTL_MS : verification.expiresAt;
+      if (end < now) this.verifications.delete(id);
+    }
+    for (const [phone, times] of this.sends) {
+      const recent = times.filter(time => now - time < SEND_WINDOW_MS);
+      if (recent.length > 0) this.sends.set(phone, recent);
+      else this.sends.delete(phone);
+    }
+  }
+
+  async start(rawPhone: string, messages: Messages): Promise<PhoneVerificationChallenge> {
+    const text = messages.phoneVerification;
+    const phone = toE164(rawPhone);
+    if (!phone || !isMobileNumber(phone)) throw new HttpError(422, messages.validation.mobileInvalid);
+    const now = this.now();
+    this.prune(now);
+    const sent = this.sends.get(phone) ?? [];
+    const lastSent = sent[sent.length - 1];
+    if (lastSent !== undefined && now - lastSent < RESEND_COOLDOWN_MS) {
+      throw new HttpError(429, text.cooldown(Math.ceil((lastSent + RESEND_COOLDOWN_MS - now) / 1000)));
+    }
+    if (sent.length >= MAX_SENDS) throw new HttpError(429, text.tooManyRequests);
+
+    const code = String(randomInt(0, 10 ** CODE_LENGTH)).padStart(CODE_LENGTH, '0');
+    await this.sms.send(phone, text.smsText(code));
+    // A new code replaces any pending one for the same number.
+    for (const [id, verification] of this.verifications) {
+      if (verification.phone === phone && !verification.verifiedAt) this.verifications.delete(id);
+    }
+    const verificationId = randomUUID();
+    this.verifications.set(verificationId, { phone, codeHash: hashCode(code), expiresAt: now + CODE_TTL_MS, attempts: 0 });
+    this.sends.set(phone, [...sent, now]);
+    return {
+      verificationId,
+      expiresAt: new Date(now + CODE_TTL_MS).toISOString(),
+      resendAt: new Date(now + RESEND_COOLDOWN_MS).toISOString(),
+    };
+  }
+
+  confirm(verificationId: string, code: string, messages: Messages): void {
+    const text = messages.phoneVerification;
+    const verification = this.verifications.get(verificationId);
+    if (verification?.verifiedAt) return;
+    if (!verification || verification.expiresAt < this.now()) throw new HttpError(410, text.expired);
+    if (verification.attempts >= MAX_ATTEMPTS) throw new HttpError(429, text.locked);
+    verification.attempts += 1;
+    if (!timingSafeEqual(hashCode(code.trim()), verification.codeHash)) {
+      const remaining = MAX_ATTEMPTS - verification.attempts;
+      throw remaining > 0 ? new HttpError(422, text.wrongCode(remaining)) : new HttpError(429, text.locked);
+    }
+    verification.verifiedAt = this.now();
+  }
+
+  // When the number was verified under `verificationId`, if that verification matches `phone` and is still valid.
+  verifiedAt(verificationId: string | undefined, phone: string): string | null {
+    const verification = verificationId ? this.verifications.get(verificationId) : undefined;
+    if (!verification?.verifiedAt || verification.phone !== toE164(phone)) return null;
+    if (verification.verifiedAt + VERIFIED_TTL_MS < this.now()) return null;
+    return new Date(verification.verifiedAt).toISOString();
+  }
+}
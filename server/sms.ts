@@ -0,0 +1,13 @@
+// Sends text messages to E.164 numbers. Swap `smsProvider` for a real gateway client in production.
+export interface SmsProvider {
+  send(to: string, text: string): Promise<void>;
+}
+
+// Prints messages to the server log instead of sending them, so verification works offline.
+export const consoleSmsProvider: SmsProvider = {
+  async send(to, text) {
+    console.log(`[SMS → ${to}] ${text}`);
+  },
+};
+
+export const smsProvider: SmsProvider = consoleSmsProvider;
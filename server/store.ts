@@ -0,0 +1,159 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { ApplicationRecord, ApplicationSubmission } from '../types';
+import { upgradeLegacyAddress } from '../utils/address';
+import { seoulDateString } from '../utils/date';
+
+// Image fields hold paths relative to the data directory instead of data URLs.
+export type StoredApplication = ApplicationRecord;
+
+// A submission after the server has checked it, with the verification id resolved to its time.
+export type ValidatedSubmission = Omit<ApplicationSubmission, 'guardianPhoneVerificationId'> & Pick<ApplicationRecord, 'guardianPhoneVerifiedAt'>;
+
+const DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,([A-Za-z0-9+/=]+)$/;
+
+export const parseImageDataUrl = (dataUrl: string): { extension: string; bytes: Buffer } | null => {
+  const match = dataUrl.match(DATA_URL_PATTERN);
+  if (!match) return null;
+  return { extension: match[1] === 'jpeg' ? 'jpg' : 'png', bytes: Buffer.from(match[2], 'base64') };
+};
+
+// Applications are stored as one JSON file each, with images written alongside.
+export class ApplicationStore {
+  // Saves run one at a time so concurrent requests can't hand out the same number.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private dataDir: string) {}
+
+  private get applicationsDir() {
+    return path.join(this.dataDir, 'applications');
+  }
+
+  private get counterFile() {
+    return path.join(this.dataDir, 'counters.json');
+  }
+
+  // Only called from queued tasks, so two callers never get the same value.
+  private async nextCount(key: string): Promise<number> {
+    let counters: Record<string, number> = {};
+    try {
+      counters = JSON.parse(await readFile(this.counterFile, 'utf8'));
+    } catch {
+      // First submission: no counter file yet.
+    }
+    const next = (counters[key] ?? 0) + 1;
+    await writeFile(this.counterFile, JSON.stringify({ ...counters, [key]: next }));
+    return next;
+  }
+
+  // Numbers look like IYRF-20251019-0001 and restart at 1 each day.
+  private async nextApplicationNumber(date: Date): Promise<string> {
+    // Numbered by the day in Korea: a UTC date would put submissions before 9 a.m. on the previous day.
+    const day = seoulDateString(date).replace(/-/g, '');
+    return `IYRF-${day}-${String(await this.nextCount(day)).padStart(4, '0')}`;
+  }
+
+  private async writeImage(dir: string, name: string, dataUrl: string | null): Promise<string | null> {
+    if (!dataUrl) return null;
+    const image = parseImageDataUrl(dataUrl);
+    if (!image) return null;
+    const file = `${name}.${image.extension}`;
+    await writeFile(path.join(dir, file), image.bytes);
+    return path.relative(this.dataDir, path.join(dir, file));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private recordFile(applicationNumber: string) {
+    if (!/^[A-Z]+-\d{8}-\d{4}$/.test(applicationNumber)) return null;
+    return path.join(this.applicationsDir, applicationNumber, 'application.json');
+  }
+
+  save(submission: ValidatedSubmission, date = new Date()): Promise<StoredApplication> {
+    return this.enqueue(() => this.write(submission, date));
+  }
+
+  async get(applicationNumber: string): Promise<StoredApplication | null> {
+    const file = this.recordFile(applicationNumber);
+    if (!file) return null;
+    try {
+      const record = JSON.parse(await readFile(file, 'utf8'));
+      // Records written before the review workflow existed have no status or notes,
+      // and older ones still have the single-line address.
+      return { status: 'received', notes: [], ...record, formData: upgradeLegacyAddress(record.formData) };
+    } catch {
+      return null;
+    }
+  }
+
+  async list(): Promise<StoredApplication[]> {
+    let numbers: string[];
+    try {
+      numbers = await readdir(this.applicationsDir);
+    } catch {
+      return [];
+    }
+    const records = await Promise.all(numbers.map(number => this.get(number)));
+    return records
+      .filter((record): record is StoredApplication => record !== null)
+      .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+  }
+
+  // The change may draw the next value of a named counter, e.g. to allocate a member number,
+  // without another write slipping in between.
+  update(
+    applicationNumber: string,
+    change: (record: StoredApplication, nextCount: (key: string) => Promise<number>) => StoredApplication | Promise<StoredApplication>,
+  ): Promise<StoredApplication | null> {
+    return this.enqueue(async () => {
+      const record = await this.get(applicationNumber);
+      const file = this.recordFile(applicationNumber);
+      if (!record || !file) return null;
+      const updated = await change(record, key => this.nextCount(key));
+      await writeFile(file, JSON.stringify(updated, null, 2));
+      return updated;
+    });
+  }
+
+  async readImage(relativePath: string | null): Promise<string | null> {
+    if (!relativePath) return null;
+    const file = path.resolve(this.dataDir, relativePath);
+    if (!file.startsWith(this.dataDir + path.sep)) return null;
+    try {
+      const mime = file.endsWith('.png') ? 'image/png' : 'image/jpeg';
+      return `data:${mime};base64,${(await readFile(file)).toString('base64')}`;
+    } catch {
+      return null;
+    }
+  }
+
+  private async write({ formData, profileImage, additionalGuardians, consents, guardianPhoneVerifiedAt, coordinator }: ValidatedSubmission, date: Date): Promise<StoredApplication> {
+    await mkdir(this.applicationsDir, { recursive: true });
+    const applicationNumber = await this.nextApplicationNumber(date);
+    const dir = path.join(this.applicationsDir, applicationNumber);
+    await mkdir(dir, { recursive: true });
+
+    const record: StoredApplication = {
+      applicationNumber,
+      submittedAt: date.toISOString(),
+      formData: {
+        ...formData,
+        signature: (await this.writeImage(dir, 'signature', formData.signature)) ?? '',
+        guardianSignature: (await this.writeImage(dir, 'guardian-signature', formData.guardianSignature)) ?? '',
+      },
+      profileImage: await this.writeImage(dir, 'photo', profileImage),
+      additionalGuardians,
+      consents,
+      ...(guardianPhoneVerifiedAt && { guardianPhoneVerifiedAt }),
+      ...(coordinator && { coordinator }),
+      status: 'received',
+      notes: [],
+    };
+    await writeFile(path.join(dir, 'application.json'), JSON.stringify(record, null, 2));
+    return record;
+  }
+}
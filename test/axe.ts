@@ -0,0 +1,10 @@
+import axe from 'axe-core';
+import { expect } from 'vitest';
+
+// jsdom has no layout or canvas, so rules that measure rendered colours can't run.
+const DISABLED_RULES = { 'color-contrast': { enabled: false } };
+
+export const expectNoAxeViolations = async (container: Element) => {
+  const { violations } = await axe.run(container, { rules: DISABLED_RULES });
+  expect(violations.map(({ id, nodes }) => `${id}: ${nodes.map(node => node.target.join(' ')).join(', ')}`)).toEqual([]);
+};
@@ -0,0 +1,15 @@
+import { expect } from 'vitest';
+
+// Every invalid field must point at a rendered error message, and every rendered
+// message must belong to a field, so screen readers read the error with the field.
+export const expectErrorsLinkedToFields = (container: Element) => {
+  const invalid = Array.from(container.querySelectorAll('[aria-invalid="true"]'));
+  expect(invalid.length).toBeGreaterThan(0);
+  const describedIds = invalid.map(field => {
+    const ids = field.getAttribute('aria-describedby')?.split(/\s+/) ?? [];
+    expect(ids, `${field.id} has no aria-describedby`).not.toEqual([]);
+    ids.forEach(id => expect(container.ownerDocument.getElementById(id)?.textContent, `${field.id} → #${id}`).toBeTruthy());
+    return ids;
+  }).flat();
+  container.querySelectorAll('[id$="-error"]').forEach(message => expect(describedIds, `#${message.id} is not linked`).toContain(message.id));
+};
@@ -0,0 +1,5 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Tests don't use vitest globals, so Testing Library can't register its own cleanup.
+afterEach(() => cleanup());
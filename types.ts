@@ -1,3 +1,5 @@
+export type GuardianRelationship = '부' | '모' | '조부모' | '법정대리인' | '기타';
+
 export interface FormData {
   affiliation: string;
   nameKorean: string;
@@ -6,10 +8,175 @@ export interface FormData {
   gender: '남' | '여' | '';
   email: string;
   phoneApplicant: string;
-  guardianRelationship: '부' | '모' | '';
+  guardianRelationship: GuardianRelationship | '';
+  // Free text describing the relationship when guardianRelationship is 기타.
+  guardianRelationshipOther: string;
   guardianName: string;
   guardianPhone: string;
-  address: string;
+  // Postal code, road-name and jibun address come from the address search; the applicant types the detail (동·호수).
+  postalCode: string;
+  roadAddress: string;
+  jibunAddress: string;
+  addressDetail: string;
+  // PNG data URLs captured by the signature pads.
   signature: string;
+  guardianSignature: string;
   dateOfBirth: string;
-}
\ No newline at end of file
+  // Set by the applicant when the computed grade is wrong (빠른년생, repeating a year, ...).
+  gradeOverride: string;
+  gradeOverrideReason: string;
+}
+
+// One result from an address provider.
+export interface PostalAddress {
+  postalCode: string;
+  roadAddress: string;
+  jibunAddress: string;
+}
+
+// 'additionalGuardians' and 'consents' carry a single message from the server for the whole list.
+export type FormErrorKey = keyof FormData | 'profileImage' | 'additionalGuardians' | 'consents';
+
+export type FormErrors = Partial<Record<FormErrorKey, string>>;
+
+export type WizardStep = 'applicant' | 'guardian' | 'signature' | 'consent' | 'review';
+
+// One entry of the error summary shown when a step fails validation; `id` is the field to focus.
+export interface ErrorSummaryItem {
+  id: string;
+  message: string;
+}
+
+export interface GroupCoordinator {
+  name: string;
+  phone: string;
+  email: string;
+}
+
+export type CoordinatorErrors = Partial<Record<keyof GroupCoordinator, string>>;
+
+// Guardians beyond the primary one in FormData. Only the primary guardian signs.
+export interface Guardian {
+  id: string;
+  relationship: GuardianRelationship | '';
+  relationshipOther: string;
+  name: string;
+  phone: string;
+}
+
+export type GuardianErrors = Partial<Record<Exclude<keyof Guardian, 'id'>, string>>;
+
+export interface GroupMember {
+  id: string;
+  formData: FormData;
+  profileImage: string | null;
+}
+
+export type ConsentDocumentId = 'pledge' | 'benefits' | 'privacy' | 'promotion';
+
+// Proof of one agreement: which document, in which version and language, the
+// SHA-256 of the exact text shown, and when the applicant agreed.
+export interface ConsentRecord {
+  documentId: ConsentDocumentId;
+  version: string;
+  language: Language;
+  contentHash: string;
+  agreedAt: string;
+}
+
+export type ConsentRecords = Partial<Record<ConsentDocumentId, ConsentRecord>>;
+
+// Machine-readable copy of an application carried inside exported PDF/JPEG files.
+// Images are left out; the footer QR code carries a compact copy without the consent hashes.
+export interface ApplicationPayload {
+  format: 1;
+  issuedAt: string;
+  affiliationName: string;
+  grade: string;
+  formData: Omit<FormData, 'signature' | 'guardianSignature'>;
+  additionalGuardians: Guardian[];
+  consents: ConsentRecord[];
+}
+
+// Tokens for one payload: the full one for the file metadata and the compact one for the QR code.
+export interface PayloadTokens {
+  token: string;
+  qrToken: string;
+}
+
+export interface ApplicationSubmission {
+  formData: FormData;
+  profileImage: string | null;
+  additionalGuardians: Guardian[];
+  consents: ConsentRecord[];
+  // Set when the guardian's mobile number was verified with a one-time code.
+  guardianPhoneVerificationId?: string;
+  // Set for members of a group application, who sign their printed forms instead.
+  coordinator?: GroupCoordinator;
+}
+
+export interface SubmissionReceipt {
+  applicationNumber: string;
+  submittedAt: string;
+}
+
+export type ApplicationStatus = 'received' | 'approved' | 'rejected' | 'member';
+
+export interface ApplicationNote {
+  text: string;
+  author: string;
+  createdAt: string;
+}
+
+export interface ApplicationRecord extends SubmissionReceipt {
+  formData: FormData;
+  profileImage: string | null;
+  // Missing on records stored before multiple guardians or consent records were supported.
+  additionalGuardians?: Guardian[];
+  consents?: ConsentRecord[];
+  guardianPhoneVerifiedAt?: string;
+  coordinator?: GroupCoordinator;
+  status: ApplicationStatus;
+  // Allocated when the application is approved; printed on the member ID card.
+  memberNumber?: string;
+  memberNumberIssuedAt?: string;
+  notes: ApplicationNote[];
+}
+
+// Returned when a verification code has been sent; the code itself only goes out by SMS.
+export interface PhoneVerificationChallenge {
+  verificationId: string;
+  expiresAt: string;
+  // Earliest time another code can be requested for the same number.
+  resendAt: string;
+}
+
+// List rows for the admin dashboard: no images or notes, plus the grade computed on the server.
+export interface ApplicationSummary extends SubmissionReceipt {
+  formData: FormData;
+  additionalGuardians: Guardian[];
+  consents: ConsentRecord[];
+  status: ApplicationStatus;
+  memberNumber?: string;
+  grade: string;
+}
+
+export interface ApplicationFilters {
+  affiliation?: string;
+  membershipType?: string;
+  grade?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface Affiliation {
+  id: string;
+  // Short center code used in member numbers, e.g. CN.
+  code: string;
+  name: string;
+  region: string;
+  contactPerson: string;
+  active: boolean;
+}
+
+export type Language = 'ko' | 'en';
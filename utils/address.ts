@@ -0,0 +1,73 @@
+import type { FormData, PostalAddress } from '../types';
+import { ADDRESS_DATASET_URL } from '../constants';
+
+// Backs the 주소 검색 dialog. A real postcode service can replace the local
+// dataset by implementing this and swapping `addressProvider` below.
+export interface AddressProvider {
+  search(query: string): Promise<PostalAddress[]>;
+}
+
+const POSTAL_CODE_PATTERN = /^\d{5}$/;
+const SEARCH_LIMIT = 20;
+
+export const parseAddressDataset = (json: unknown): PostalAddress[] => {
+  if (!Array.isArray(json)) throw new Error('주소 데이터 형식이 올바르지 않습니다.');
+  return json.map((entry, index) => {
+    const { postalCode, roadAddress, jibunAddress = '' } = entry ?? {};
+    if (typeof postalCode !== 'string' || !POSTAL_CODE_PATTERN.test(postalCode)) {
+      throw new Error(`${index + 1}번째 주소의 우편번호가 올바르지 않습니다.`);
+    }
+    if (typeof roadAddress !== 'string' || !roadAddress.trim()) throw new Error(`${index + 1}번째 주소의 도로명 주소가 없습니다.`);
+    return { postalCode, roadAddress, jibunAddress: String(jibunAddress) };
+  });
+};
+
+const normalize = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+// Every whitespace-separated term must appear in the postal code, road-name or
+// jibun address, so "청라 252" and "별내동 1003" both match.
+export const searchAddresses = (addresses: PostalAddress[], query: string, limit = SEARCH_LIMIT): PostalAddress[] => {
+  const terms = query.trim().split(/\s+/).filter(Boolean).map(normalize);
+  if (terms.length === 0) return [];
+  return addresses
+    .filter(({ postalCode, roadAddress, jibunAddress }) => {
+      const text = normalize(`${postalCode} ${roadAddress} ${jibunAddress}`);
+      return terms.every(term => text.includes(term));
+    })
+    .slice(0, limit);
+};
+
+// Searches a dataset given inline or fetched once from `source`, so it works without network access.
+export const createLocalAddressProvider = (source: string | PostalAddress[] = ADDRESS_DATASET_URL): AddressProvider => {
+  let dataset: Promise<PostalAddress[]> | null = null;
+  const load = () => {
+    if (!dataset) {
+      dataset = (typeof source === 'string'
+        ? fetch(source).then(response => {
+          if (!response.ok) throw new Error('주소 데이터를 불러오지 못했습니다.');
+          return response.json();
+        }).then(parseAddressDataset)
+        : Promise.resolve(source)
+      ).catch(error => {
+        dataset = null;
+        throw error;
+      });
+    }
+    return dataset;
+  };
+  return { search: async query => searchAddresses(await load(), query) };
+};
+
+export const addressProvider: AddressProvider = createLocalAddressProvider();
+
+// "(22739) 인천광역시 서구 청라커낼로 252 101동 1001호"
+export const formatAddress = ({ postalCode, roadAddress, addressDetail }: Pick<FormData, 'postalCode' | 'roadAddress' | 'addressDetail'>): string =>
+  [postalCode && `(${postalCode})`, roadAddress, addressDetail].filter(Boolean).join(' ');
+
+// Drafts and records saved before the address was split kept one free-text
+// `address`; it moves to the road-name field so nothing is lost.
+export const upgradeLegacyAddress = (formData: FormData & { address?: string }): FormData => {
+  const { address, ...rest } = formData;
+  if (address === undefined) return formData;
+  return { postalCode: '', jibunAddress: '', addressDetail: '', ...rest, roadAddress: rest.roadAddress || address };
+};
@@ -0,0 +1,63 @@
+import type { ApplicationFilters, ApplicationRecord, ApplicationStatus, ApplicationSummary, Language } from '../types';
+import { MESSAGES } from '../locales';
+
+export const ADMIN_API_BASE = process.env.ADMIN_API_BASE || '/api/admin';
+
+const TOKEN_KEY = 'iyrf-admin-token';
+
+export class AdminApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AdminApiError';
+  }
+}
+
+export const getAdminToken = () => sessionStorage.getItem(TOKEN_KEY);
+
+export const clearAdminToken = () => sessionStorage.removeItem(TOKEN_KEY);
+
+// The language only picks the client's own messages; the server's admin errors are in Korean.
+const request = async <T>(path: string, language: Language, init: RequestInit = {}): Promise<T> => {
+  const messages = MESSAGES[language].admin;
+  const token = getAdminToken();
+  let response: Response;
+  try {
+    response = await fetch(`${ADMIN_API_BASE}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+  } catch {
+    throw new AdminApiError(messages.unreachable, 0);
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    if (response.status === 401) clearAdminToken();
+    throw new AdminApiError(body.message ?? messages.failed, response.status);
+  }
+  return body as T;
+};
+
+export const login = async (username: string, password: string, language: Language = 'ko'): Promise<void> => {
+  const { token } = await request<{ token: string }>('/login', language, { method: 'POST', body: JSON.stringify({ username, password }) });
+  sessionStorage.setItem(TOKEN_KEY, token);
+};
+
+export const listApplications = (filters: ApplicationFilters, language: Language = 'ko'): Promise<ApplicationSummary[]> => {
+  const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value) as [string, string][]);
+  return request(`/applications?${params}`, language);
+};
+
+export const getApplication = (applicationNumber: string, language: Language = 'ko'): Promise<ApplicationRecord> =>
+  request(`/applications/${encodeURIComponent(applicationNumber)}`, language);
+
+export const updateStatus = (applicationNumber: string, status: ApplicationStatus, language: Language = 'ko'): Promise<ApplicationRecord> =>
+  request(`/applications/${encodeURIComponent(applicationNumber)}`, language, { method: 'PATCH', body: JSON.stringify({ status }) });
+
+export const addNote = (applicationNumber: string, text: string, language: Language = 'ko'): Promise<ApplicationRecord> =>
+  request(`/applications/${encodeURIComponent(applicationNumber)}/notes`, language, { method: 'POST', body: JSON.stringify({ text }) });
+
+export const issueMemberNumber = (applicationNumber: string, language: Language = 'ko'): Promise<ApplicationRecord> =>
+  request(`/applications/${encodeURIComponent(applicationNumber)}/member-number`, language, { method: 'POST' });
@@ -0,0 +1,45 @@
+import type { Affiliation } from '../types';
+import { AFFILIATIONS_URL } from '../constants';
+
+const ID_PATTERN = /^[a-z0-9-]+$/;
+const CODE_PATTERN = /^[A-Z0-9]+$/;
+
+// Validates the registry shape and rejects duplicate ids or names, which the
+// old hard-coded list allowed.
+export const parseAffiliationRegistry = (json: unknown): Affiliation[] => {
+  if (!Array.isArray(json)) throw new Error('소속 단체 목록 형식이 올바르지 않습니다.');
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  const codes = new Set<string>();
+  return json.map((entry, index) => {
+    const { id, code: rawCode, name, region = '', contactPerson = '', active = true } = entry ?? {};
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) throw new Error(`${index + 1}번째 소속 단체의 id가 올바르지 않습니다.`);
+    if (typeof name !== 'string' || !name.trim()) throw new Error(`소속 단체 "${id}"의 이름이 없습니다.`);
+    // Entries without a code fall back to their id, upper-cased.
+    const code = rawCode ?? id.replace(/-/g, '').toUpperCase();
+    if (typeof code !== 'string' || !CODE_PATTERN.test(code)) throw new Error(`소속 단체 "${id}"의 코드가 올바르지 않습니다.`);
+    if (ids.has(id)) throw new Error(`소속 단체 id "${id}"가 중복되었습니다.`);
+    if (names.has(name)) throw new Error(`소속 단체 이름 "${name}"이(가) 중복되었습니다.`);
+    if (codes.has(code)) throw new Error(`소속 단체 코드 "${code}"가 중복되었습니다.`);
+    ids.add(id);
+    names.add(name);
+    codes.add(code);
+    return { id, code, name, region: String(region), contactPerson: String(contactPerson), active: Boolean(active) };
+  });
+};
+
+export const loadAffiliations = async (url = AFFILIATIONS_URL): Promise<Affiliation[]> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('소속 단체 목록을 불러오지 못했습니다.');
+  return parseAffiliationRegistry(await response.json());
+};
+
+export const findAffiliation = (affiliations: Affiliation[], id: string): Affiliation | undefined =>
+  affiliations.find(affiliation => affiliation.id === id);
+
+export const affiliationName = (affiliations: Affiliation[], id: string): string =>
+  findAffiliation(affiliations, id)?.name ?? id;
+
+// Drafts saved before the registry stored the display name; map those back to an id.
+export const resolveAffiliationId = (affiliations: Affiliation[], value: string): string =>
+  findAffiliation(affiliations, value)?.id ?? affiliations.find(affiliation => affiliation.name === value)?.id ?? '';
@@ -0,0 +1,53 @@
+import jsQR from 'jsqr';
+import type { ApplicationPayload, Language } from '../types';
+import { MESSAGES } from '../locales';
+import { PAYLOAD_PREFIX, readJpegPayload, readPayload } from './applicationPayload';
+import { readPdfPayload } from './pdfExport';
+
+export type ImportedApplication =
+  // Unverified payloads are unsigned, or signed but read without a server to check them.
+  | { fileName: string; payload: ApplicationPayload; verified: boolean; source: 'metadata' | 'qr' }
+  | { fileName: string; error: string };
+
+// Large phone photos are scaled down first; the footer code still has a few pixels per module.
+const MAX_SCAN_DIMENSION = 2400;
+
+// Scans and photos of a printed application have no metadata, so the footer QR code is read instead.
+const scanQrCode = async (file: File): Promise<string | null> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SCAN_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const code = jsQR(ctx.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height);
+  return code?.data.startsWith(PAYLOAD_PREFIX) ? code.data : null;
+};
+
+// Never throws: a file that can't be read is reported alongside the ones that could.
+export const readApplicationFile = async (file: File, language: Language = 'ko'): Promise<ImportedApplication> => {
+  const messages = MESSAGES[language].applicationImport;
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let token: string | null;
+    let source: 'metadata' | 'qr' = 'metadata';
+    if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) {
+      token = await readPdfPayload(bytes);
+    } else if (file.type.startsWith('image/')) {
+      token = readJpegPayload(bytes);
+      if (!token) {
+        token = await scanQrCode(file);
+        source = 'qr';
+      }
+    } else {
+      throw new Error(messages.unsupportedFile);
+    }
+    if (!token) throw new Error(messages.noData);
+    return { fileName: file.name, ...await readPayload(token, language), source };
+  } catch (error) {
+    return { fileName: file.name, error: (error as Error).message };
+  }
+};
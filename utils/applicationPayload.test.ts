@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ApplicationPayload } from '../types';
+import { decodePayloadUnverified, parsePayloadToken, payloadQrCode, signPayload } from './applicationPayload';
+
+const payload: ApplicationPayload = {
+  format: 1,
+  issuedAt: '2026-10-19T05:12:40.000Z',
+  affiliationName: '청라 로봇봉사단',
+  grade: '초5',
+  formData: {
+    affiliation: 'cheongna', membershipType: '개인', nameKorean: '홍길동', nameEnglish: 'HONG GILDONG', dateOfBirth: '2015-03-04',
+    gender: '남', email: 'parent.hong@example.com', phoneApplicant: '+821012345678', postalCode: '22745',
+    roadAddress: '인천광역시 서구 청라커낼로 252', jibunAddress: '인천광역시 서구 청라동 156-1', addressDetail: '101동 1203호',
+    guardianRelationship: '모', guardianRelationshipOther: '', guardianName: '김영희', guardianPhone: '+821098765432',
+    gradeOverride: '', gradeOverrideReason: '',
+  },
+  additionalGuardians: [{ id: 'guardian-1', relationship: '부', relationshipOther: '', name: '홍판서', phone: '+821011112222' }],
+  consents: (['pledge', 'privacy', 'benefits', 'promotion'] as const).map((documentId, index) => ({
+    documentId,
+    version: '2025-01',
+    language: 'ko',
+    contentHash: `${index}`.repeat(64),
+    agreedAt: `2026-10-19T05:12:3${index}.000Z`,
+  })),
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('signPayload', () => {
+  it('embeds the data unsigned when no server is configured', async () => {
+    const { token, qrToken } = await signPayload(payload, 'ko', '');
+    expect(parsePayloadToken(token)?.signature).toBeNull();
+    expect(parsePayloadToken(qrToken)?.signature).toBeNull();
+    expect(await decodePayloadUnverified(token)).toEqual(payload);
+  });
+
+  it('falls back to unsigned data when the server cannot be reached', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    const { token } = await signPayload(payload, 'ko', '/api/payloads');
+    expect(parsePayloadToken(token)?.signature).toBeNull();
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('QR copy', () => {
+  it('reads back as the same application without the consent hashes', async () => {
+    const { qrToken } = await signPayload(payload, 'ko', '');
+    expect(await decodePayloadUnverified(qrToken)).toEqual({
+      ...payload,
+      consents: payload.consents.map(record => ({ ...record, contentHash: '' })),
+    });
+  });
+
+  it('stays small enough to print with readable modules', async () => {
+    const { qrToken } = await signPayload(payload, 'ko', '');
+    // The server's signature adds 44 characters; version 18 (89 modules) still leaves 0.45 mm per module at 40 mm.
+    expect(payloadQrCode(`${qrToken}.${'A'.repeat(43)}`).size).toBeLessThanOrEqual(89);
+  });
+});
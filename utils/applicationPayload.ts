@@ -0,0 +1,209 @@
+import QRCode from 'qrcode';
+import type { ApplicationPayload, ConsentRecord, FormData, Guardian, Language, PayloadTokens } from '../types';
+import { MESSAGES, type Messages } from '../locales';
+import { effectiveGrade } from './grade';
+
+export class PayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayloadError';
+  }
+}
+
+// The payload is signed and checked by the server, which alone holds the key. Empty when no
+// server is configured; exports then carry the data unsigned and the import page reports it as unverified.
+export const PAYLOAD_ENDPOINT = process.env.PAYLOAD_ENDPOINT ?? '';
+
+// "IYRF1.<deflated JSON>.<HMAC-SHA256>", both parts base64url. Unsigned tokens stop after the data.
+export const PAYLOAD_PREFIX = 'IYRF1.';
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const transform = (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Response(new Response(bytes).body!.pipeThrough(stream)).arrayBuffer().then(buffer => new Uint8Array(buffer));
+
+// The data and signature parts of a token, or null when it isn't one.
+export const parsePayloadToken = (token: string): { body: string; signature: string | null } | null => {
+  const trimmed = token.trim();
+  if (!trimmed.startsWith(PAYLOAD_PREFIX)) return null;
+  const [body, signature, ...rest] = trimmed.slice(PAYLOAD_PREFIX.length).split('.');
+  if (!body || signature === '' || rest.length > 0 || !BASE64URL_PATTERN.test(body + (signature ?? ''))) return null;
+  return { body, signature: signature ?? null };
+};
+
+const post = async <T>(url: string, body: unknown, language: Language): Promise<T> => {
+  const messages = MESSAGES[language].payload;
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept-Language': language },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new PayloadError(messages.unreachable);
+  }
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new PayloadError(result.message ?? messages.failed);
+  return result as T;
+};
+
+interface PayloadInput {
+  formData: FormData;
+  affiliationName: string;
+  additionalGuardians?: Guardian[];
+  consents?: ConsentRecord[];
+  date?: Date;
+}
+
+export const createApplicationPayload = ({ formData, affiliationName, additionalGuardians = [], consents = [], date = new Date() }: PayloadInput): ApplicationPayload => {
+  const { signature: _signature, guardianSignature: _guardianSignature, ...fields } = formData;
+  return {
+    format: 1,
+    issuedAt: date.toISOString(),
+    affiliationName,
+    grade: effectiveGrade(formData, date),
+    formData: fields,
+    additionalGuardians,
+    consents,
+  };
+};
+
+// Field order of the QR copy, which leaves out the keys to stay small. Only ever append:
+// printed forms are read back with this list.
+const QR_FORM_FIELDS = [
+  'affiliation', 'membershipType', 'nameKorean', 'nameEnglish', 'dateOfBirth', 'gender', 'email', 'phoneApplicant',
+  'postalCode', 'roadAddress', 'jibunAddress', 'addressDetail', 'guardianRelationship', 'guardianRelationshipOther',
+  'guardianName', 'guardianPhone', 'gradeOverride', 'gradeOverrideReason',
+] as const satisfies readonly (keyof ApplicationPayload['formData'])[];
+
+// [2, issuedAt, affiliationName, grade, field values, guardians, consents] with arrays in place of
+// objects. The consent hashes stay in the file metadata.
+type QrPayload = [format: 2, issuedAt: string, affiliationName: string, grade: string, fields: string[], guardians: string[][], consents: string[][]];
+
+export const toQrPayload = ({ issuedAt, affiliationName, grade, formData, additionalGuardians, consents }: ApplicationPayload): QrPayload => [
+  2,
+  issuedAt,
+  affiliationName,
+  grade,
+  QR_FORM_FIELDS.map(field => formData[field]),
+  additionalGuardians.map(({ relationship, relationshipOther, name, phone }) => [relationship, relationshipOther, name, phone]),
+  consents.map(({ documentId, version, language, agreedAt }) => [documentId, version, language, agreedAt]),
+];
+
+const fromQrPayload = ([, issuedAt, affiliationName, grade, fields, guardians, consents]: QrPayload): ApplicationPayload => ({
+  format: 1,
+  issuedAt,
+  affiliationName,
+  grade,
+  formData: Object.fromEntries(QR_FORM_FIELDS.map((field, index) => [field, fields[index] ?? ''])) as ApplicationPayload['formData'],
+  additionalGuardians: guardians.map(([relationship, relationshipOther, name, phone], index) => ({ id: `guardian-${index + 1}`, relationship, relationshipOther, name, phone }) as Guardian),
+  consents: consents.map(([documentId, version, language, agreedAt]) => ({ documentId, version, language, contentHash: '', agreedAt }) as ConsentRecord),
+});
+
+// Either form of the payload from a token's decompressed JSON, or null for an unknown format.
+export const parsePayloadJson = (json: string): ApplicationPayload | null => {
+  const data = JSON.parse(json);
+  if (Array.isArray(data) && data[0] === 2) return fromQrPayload(data as QrPayload);
+  return data?.format === 1 ? data as ApplicationPayload : null;
+};
+
+const encodeUnsigned = async (data: ApplicationPayload | QrPayload): Promise<string> =>
+  `${PAYLOAD_PREFIX}${toBase64Url(await transform(new TextEncoder().encode(JSON.stringify(data)), new CompressionStream('deflate-raw')))}`;
+
+// Reads the data without checking the signature; only the server can tell whether it is genuine.
+export const decodePayloadUnverified = async (token: string, language: Language = 'ko'): Promise<ApplicationPayload> => {
+  const messages = MESSAGES[language].payload;
+  const parts = parsePayloadToken(token);
+  if (!parts) throw new PayloadError(messages.invalidFormat);
+  let payload: ApplicationPayload | null;
+  try {
+    payload = parsePayloadJson(new TextDecoder().decode(await transform(fromBase64Url(parts.body), new DecompressionStream('deflate-raw'))));
+  } catch {
+    throw new PayloadError(messages.invalidFormat);
+  }
+  if (!payload) throw new PayloadError(messages.unsupportedVersion);
+  return payload;
+};
+
+// Signing never blocks an export: without a server, or when it can't sign, the data goes out unsigned.
+export const signPayload = async (payload: ApplicationPayload, language: Language, endpoint = PAYLOAD_ENDPOINT): Promise<PayloadTokens> => {
+  if (endpoint) {
+    try {
+      return await post<PayloadTokens>(endpoint, { payload }, language);
+    } catch (error) {
+      console.warn(error);
+    }
+  }
+  return { token: await encodeUnsigned(payload), qrToken: await encodeUnsigned(toQrPayload(payload)) };
+};
+
+export const verifyPayload = async (token: string, language: Language, endpoint = PAYLOAD_ENDPOINT): Promise<ApplicationPayload> => {
+  if (!endpoint) throw new PayloadError(MESSAGES[language].payload.unavailable);
+  return (await post<{ payload: ApplicationPayload }>(`${endpoint}/verify`, { token }, language)).payload;
+};
+
+// Signed tokens are checked by the server where there is one; anything else is read as it is and
+// reported as unverified.
+export const readPayload = async (token: string, language: Language, endpoint = PAYLOAD_ENDPOINT): Promise<{ payload: ApplicationPayload; verified: boolean }> => {
+  if (endpoint && parsePayloadToken(token)?.signature) return { payload: await verifyPayload(token, language, endpoint), verified: true };
+  return { payload: await decodePayloadUnverified(token, language), verified: false };
+};
+
+// Dark modules of the QR code as horizontal runs, so callers can draw them as a few
+// rectangles on a canvas or a PDF page. Medium error correction survives smudged or photocopied prints.
+export const payloadQrCode = (token: string): { size: number; runs: { row: number; start: number; length: number }[] } => {
+  const { modules } = QRCode.create(token, { errorCorrectionLevel: 'M' });
+  const runs: { row: number; start: number; length: number }[] = [];
+  for (let row = 0; row < modules.size; row++) {
+    let start = -1;
+    for (let col = 0; col <= modules.size; col++) {
+      const dark = col < modules.size && modules.get(row, col);
+      if (dark && start < 0) start = col;
+      if (!dark && start >= 0) {
+        runs.push({ row, start, length: col - start });
+        start = -1;
+      }
+    }
+  }
+  return { size: modules.size, runs };
+};
+
+const JPEG_SOI = 0xd8;
+const JPEG_APP0 = 0xe0;
+const JPEG_COMMENT = 0xfe;
+const JPEG_SOS = 0xda;
+
+// Stores the token in a JPEG comment segment, after the JFIF header where there is one.
+export const embedPayloadInJpeg = (jpeg: Uint8Array, token: string, messages: Messages['payload'] = MESSAGES.ko.payload): Uint8Array => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== JPEG_SOI) throw new PayloadError(messages.notJpeg);
+  const insertAt = jpeg[2] === 0xff && jpeg[3] === JPEG_APP0 ? 4 + ((jpeg[4] << 8) | jpeg[5]) : 2;
+  const text = new TextEncoder().encode(token);
+  const segment = new Uint8Array(4 + text.length);
+  segment.set([0xff, JPEG_COMMENT, (text.length + 2) >> 8, (text.length + 2) & 0xff]);
+  segment.set(text, 4);
+  const result = new Uint8Array(jpeg.length + segment.length);
+  result.set(jpeg.subarray(0, insertAt));
+  result.set(segment, insertAt);
+  result.set(jpeg.subarray(insertAt), insertAt + segment.length);
+  return result;
+};
+
+export const readJpegPayload = (jpeg: Uint8Array): string | null => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== JPEG_SOI) return null;
+  let offset = 2;
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff && jpeg[offset + 1] !== JPEG_SOS) {
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    if (jpeg[offset + 1] === JPEG_COMMENT) {
+      const text = new TextDecoder().decode(jpeg.subarray(offset + 4, offset + 2 + length));
+      if (text.startsWith(PAYLOAD_PREFIX)) return text;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
@@ -0,0 +1,68 @@
+import type { ConsentDocumentId, ConsentRecord, ConsentRecords, Language } from '../types';
+import { CONSENT_DOCUMENTS } from '../constants';
+import { isLanguage, MESSAGES, type Messages } from '../locales';
+
+export const CONSENT_DOCUMENT_IDS = Object.keys(CONSENT_DOCUMENTS) as ConsentDocumentId[];
+
+export const REQUIRED_CONSENTS = CONSENT_DOCUMENT_IDS.filter(id => CONSENT_DOCUMENTS[id].required);
+
+const isConsentDocumentId = (value: unknown): value is ConsentDocumentId =>
+  CONSENT_DOCUMENT_IDS.includes(value as ConsentDocumentId);
+
+// The plain text of a document as shown to the applicant, one paragraph per line.
+// This is what gets hashed, so any wording change produces a different hash.
+export const consentText = (messages: Messages, documentId: ConsentDocumentId): string => {
+  switch (documentId) {
+    case 'pledge': {
+      const { title, paragraphs, closing } = messages.pledge;
+      return [title, ...paragraphs, closing].join('\n');
+    }
+    case 'benefits': {
+      const { title, intro, requirementsTitle, requirements, centerTitle, center, highlight } = messages.benefits;
+      return [
+        title, intro, requirementsTitle,
+        ...requirements.map(({ label, text }) => `${label}: ${text}`),
+        centerTitle, center, highlight.before + highlight.strong + highlight.after,
+      ].join('\n');
+    }
+    case 'privacy':
+    case 'promotion': {
+      const { title, intro, items, note } = messages[documentId];
+      return [title, intro, ...items.map(({ label, text }) => `${label}: ${text}`), note].join('\n');
+    }
+  }
+};
+
+// Web Crypto is available both in the browser and in Node, so the server recomputes the same hash.
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const createConsentRecord = async (
+  documentId: ConsentDocumentId,
+  language: Language,
+  date = new Date(),
+): Promise<ConsentRecord> => ({
+  documentId,
+  version: CONSENT_DOCUMENTS[documentId].version,
+  language,
+  contentHash: await sha256(consentText(MESSAGES[language], documentId)),
+  agreedAt: date.toISOString(),
+});
+
+export const hasRequiredConsents = (records: ConsentRecords): boolean =>
+  REQUIRED_CONSENTS.every(id => records[id]);
+
+// Drafts can hold agreements to an earlier version of a document; those have to be given again.
+export const currentConsents = (records: ConsentRecords = {}): ConsentRecords =>
+  Object.fromEntries(Object.entries(records).filter(([id, record]) =>
+    isConsentDocumentId(id) && record?.version === CONSENT_DOCUMENTS[id].version));
+
+// Checks a record sent by a client against the documents this build would have shown.
+export const verifyConsent = async (record: ConsentRecord): Promise<boolean> =>
+  isConsentDocumentId(record.documentId)
+  && isLanguage(record.language)
+  && record.version === CONSENT_DOCUMENTS[record.documentId].version
+  && !Number.isNaN(Date.parse(record.agreedAt))
+  && record.contentHash === await sha256(consentText(MESSAGES[record.language], record.documentId));
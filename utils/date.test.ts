@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAge, seoulDateString } from './date';
+
+describe('seoulDateString', () => {
+  it.each([
+    ['2025-03-01T14:59:59Z', '2025-03-01'],
+    // 00:00 in Seoul is 15:00 UTC the day before.
+    ['2025-03-01T15:00:00Z', '2025-03-02'],
+    ['2024-12-31T23:30:00Z', '2025-01-01'],
+  ])('%s is %s in Korea', (instant, expected) => {
+    expect(seoulDateString(new Date(instant))).toBe(expected);
+  });
+});
+
+describe('calculateAge', () => {
+  it.each([
+    // 00:30 on 4 March in Seoul is still 3 March in UTC.
+    ['2007-03-04', '2025-03-03T14:59:59Z', 17],
+    ['2007-03-04', '2025-03-03T15:30:00Z', 18],
+    ['2007-03-04', '2025-03-04T14:59:59Z', 18],
+    ['2007-12-31', '2024-12-31T15:00:00Z', 17],
+    ['2007-13-01', '2025-03-04T00:00:00Z', null],
+    ['', '2025-03-04T00:00:00Z', null],
+  ])('born %s, at %s, is %s', (birthDate, instant, expected) => {
+    expect(calculateAge(birthDate, new Date(instant))).toBe(expected);
+  });
+});
@@ -0,0 +1,17 @@
+// The calendar date in Korea as YYYY-MM-DD, whatever time zone the server or browser runs in.
+const SEOUL_DATE = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Seoul', year: 'numeric', month: '2-digit', day: '2-digit' });
+
+export const seoulDateString = (date: Date): string => SEOUL_DATE.format(date);
+
+// Age in full years on the calendar date in Korea at `referenceDate`, so birthdays turn over at midnight in Seoul.
+export const calculateAge = (birthDate: string, referenceDate: Date = new Date()): number | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(birthDate)) return null;
+  if (Number.isNaN(new Date(`${birthDate}T00:00:00`).getTime())) return null;
+  const [birthYear, birthMonth, birthDay] = birthDate.split('-').map(Number);
+  const [year, month, day] = seoulDateString(referenceDate).split('-').map(Number);
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  return year - birthYear - (hadBirthday ? 0 : 1);
+};
+
+export const formatKoreanDate = (date: Date): string =>
+  `${date.getFullYear()}년 ${date.getMonth() + 1}월 ${date.getDate()}일`;
@@ -0,0 +1,12 @@
+export const downloadFile = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = href;
+  link.click();
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadFile(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,70 @@
+import type { ConsentRecords, FormData, GroupCoordinator, GroupMember, Guardian } from '../types';
+import { DRAFT_EXPIRY_DAYS } from '../constants';
+import { upgradeLegacyAddress } from './address';
+
+export interface ApplicationDraft {
+  formData: FormData;
+  profileImage: string | null;
+  // Drafts saved before multiple guardians were supported lack this.
+  additionalGuardians?: Guardian[];
+  // Drafts saved before consents were recorded only had checkbox flags, so those applicants agree again.
+  consents?: ConsentRecords;
+  // Only present for 단체 applications; drafts saved before group mode existed lack them.
+  coordinator?: GroupCoordinator;
+  members?: GroupMember[];
+  savedAt: number;
+}
+
+const DB_NAME = 'iyrf-application';
+const STORE_NAME = 'drafts';
+const DRAFT_KEY = 'current';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const isDraftExpired = (draft: ApplicationDraft, expiryDays = DRAFT_EXPIRY_DAYS, now = Date.now()): boolean =>
+  now - draft.savedAt > expiryDays * DAY_MS;
+
+export const saveDraft = async (draft: Omit<ApplicationDraft, 'savedAt'>): Promise<void> => {
+  await withStore('readwrite', store => store.put({ ...draft, savedAt: Date.now() }, DRAFT_KEY));
+};
+
+export const deleteDraft = async (): Promise<void> => {
+  await withStore('readwrite', store => store.delete(DRAFT_KEY));
+};
+
+// Expired drafts are deleted on read so personal data doesn't outlive its retention period.
+export const loadDraft = async (expiryDays = DRAFT_EXPIRY_DAYS): Promise<ApplicationDraft | null> => {
+  const draft = await withStore<ApplicationDraft | undefined>('readonly', store => store.get(DRAFT_KEY));
+  if (!draft) return null;
+  if (isDraftExpired(draft, expiryDays)) {
+    await deleteDraft();
+    return null;
+  }
+  return {
+    ...draft,
+    formData: upgradeLegacyAddress(draft.formData),
+    members: draft.members?.map(member => ({ ...member, formData: upgradeLegacyAddress(member.formData) })),
+  };
+};
@@ -0,0 +1,7 @@
+// Error messages are rendered next to their field under this id so the field can point screen readers at them.
+export const errorId = (fieldId: string) => `${fieldId}-error`;
+
+export const errorAttributes = (fieldId: string, error?: string) => ({
+  'aria-invalid': error ? true : undefined,
+  'aria-describedby': error ? errorId(fieldId) : undefined,
+});
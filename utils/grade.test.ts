@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGrade, effectiveGrade, schoolYearOf } from './grade';
+
+// Local midnight: schoolYearOf reads the local calendar date.
+const day = (iso: string) => new Date(`${iso}T00:00:00`);
+
+describe('schoolYearOf', () => {
+  it.each([
+    ['2025-01-01', 2024],
+    ['2025-02-28', 2024],
+    ['2024-02-29', 2023],
+    ['2025-03-01', 2025],
+    ['2025-12-31', 2025],
+  ])('%s is in school year %i', (date, year) => {
+    expect(schoolYearOf(day(date))).toBe(year);
+  });
+});
+
+describe('calculateGrade', () => {
+  it.each([
+    // 1 March: the new school year starts.
+    ['2018-12-31', '2025-02-28', '미취학'],
+    ['2018-12-31', '2025-03-01', '초1'],
+    ['2018-01-01', '2025-02-28', '미취학'],
+    ['2018-01-01', '2025-03-01', '초1'],
+    ['2012-01-01', '2025-02-28', '초6'],
+    ['2012-01-01', '2025-03-01', '중1'],
+    ['2009-06-15', '2024-02-29', '중2'],
+    ['2009-06-15', '2024-03-01', '중3'],
+    // 31 December / 1 January births: the calendar year decides the cohort, not the age.
+    ['2018-12-31', '2025-12-31', '초1'],
+    ['2019-01-01', '2025-03-01', '미취학'],
+    ['2019-01-01', '2026-01-01', '미취학'],
+    ['2019-01-01', '2026-03-01', '초1'],
+    // 1 January references still belong to the previous school year.
+    ['2012-12-31', '2025-01-01', '초6'],
+    ['2013-01-01', '2025-01-01', '초5'],
+    // Preschool bound: newborns and children a year away from 초1.
+    ['2025-01-01', '2025-03-01', '미취학'],
+    ['2020-05-05', '2025-03-01', '미취학'],
+    // Adult bound: 고3 ends on the last day of February.
+    ['2007-12-31', '2026-02-28', '고3'],
+    ['2007-12-31', '2026-03-01', '졸업/성인'],
+    ['1990-01-01', '2025-03-01', '졸업/성인'],
+  ])('born %s → %s: %s', (birthDate, reference, grade) => {
+    expect(calculateGrade(birthDate, day(reference))).toBe(grade);
+  });
+
+  it.each([
+    ['', '2025-03-01'],
+    ['2018/12/31', '2025-03-01'],
+    ['2026-01-01', '2025-03-01'],
+  ])('returns nothing for an unusable birth date %j', (birthDate, reference) => {
+    expect(calculateGrade(birthDate, day(reference))).toBe('');
+  });
+});
+
+describe('effectiveGrade', () => {
+  it('prefers the applicant\'s override', () => {
+    expect(effectiveGrade({ dateOfBirth: '2018-12-31', gradeOverride: '초2' }, day('2025-03-01'))).toBe('초2');
+    expect(effectiveGrade({ dateOfBirth: '2018-12-31', gradeOverride: '' }, day('2025-03-01'))).toBe('초1');
+  });
+});
@@ -0,0 +1,44 @@
+import type { FormData } from '../types';
+import { SCHOOL_YEAR } from '../constants';
+import { calculateAge } from './date';
+
+export const PRESCHOOL_LABEL = '미취학';
+export const GRADUATED_LABEL = '졸업/성인';
+
+export const GRADE_LABELS = [
+  PRESCHOOL_LABEL,
+  ...[1, 2, 3, 4, 5, 6].map(year => `초${year}`),
+  ...[1, 2, 3].map(year => `중${year}`),
+  ...[1, 2, 3].map(year => `고${year}`),
+  GRADUATED_LABEL,
+];
+
+// The school year a date falls in: January and February still belong to the year that began the previous March.
+export const schoolYearOf = (date: Date): number =>
+  date.getMonth() + 1 >= SCHOOL_YEAR.startMonth ? date.getFullYear() : date.getFullYear() - 1;
+
+/**
+ * Grade in the school year containing `referenceDate`. Everyone born in the same calendar
+ * year shares a cohort, which enters 초1 in the March of the year they turn `SCHOOL_YEAR.entryAge`.
+ * Early or late entry is not predictable from the birth date; the form records that as an override.
+ * The edge dates (1 March, 1 January, 31 December) are tabulated in grade.test.ts.
+ */
+export const calculateGrade = (birthDate: string, referenceDate: Date = new Date()): string => {
+  const age = calculateAge(birthDate, referenceDate);
+  if (age === null || age < 0) return '';
+
+  const birthYear = Number(birthDate.slice(0, 4));
+  const year = schoolYearOf(referenceDate) - birthYear - SCHOOL_YEAR.entryAge + 1;
+
+  if (year > 12) return GRADUATED_LABEL;
+  if (year > 9) return `고${year - 9}`;
+  if (year > 6) return `중${year - 6}`;
+  if (year > 0) return `초${year}`;
+  return PRESCHOOL_LABEL;
+};
+
+// The grade shown on documents and in the dashboard: the applicant's override wins over the computed value.
+export const effectiveGrade = (
+  { dateOfBirth, gradeOverride }: Pick<FormData, 'dateOfBirth' | 'gradeOverride'>,
+  referenceDate: Date = new Date(),
+): string => gradeOverride || calculateGrade(dateOfBirth, referenceDate);
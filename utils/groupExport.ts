@@ -0,0 +1,76 @@
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import type { ConsentRecord, FormData, GroupCoordinator, GroupMember, Language } from '../types';
+import { FIELD_LABELS } from '../constants';
+import { MESSAGES } from '../locales';
+import { buildApplicationPdf, type PdfFonts } from './pdfExport';
+import { effectiveGrade } from './grade';
+import { formatKoreanDate } from './date';
+import { formatPhone } from './phone';
+
+export interface GroupArchiveInput {
+  affiliation: string;
+  affiliationName: string;
+  coordinator: GroupCoordinator;
+  members: GroupMember[];
+  // Given by the coordinator on behalf of the group and printed in every member PDF.
+  consents?: ConsentRecord[];
+  fonts: PdfFonts;
+  // Language of the member PDFs; the summary workbook stays in Korean for staff.
+  language?: Language;
+  date?: Date;
+}
+
+const SUMMARY_FIELDS: (keyof FormData)[] = [
+  'nameKorean', 'nameEnglish', 'dateOfBirth', 'gender', 'phoneApplicant', 'email',
+  'postalCode', 'roadAddress', 'jibunAddress', 'addressDetail',
+  'guardianRelationship', 'guardianRelationshipOther', 'guardianName', 'guardianPhone',
+];
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_').trim() || '이름없음';
+
+export const memberFileName = (member: GroupMember, index: number) =>
+  `${String(index + 1).padStart(3, '0')}_${safeFileName(member.formData.nameKorean)}_입회신청서.pdf`;
+
+const buildSummaryWorkbook = ({ affiliationName, coordinator, members, consents = [], date = new Date() }: GroupArchiveInput): Uint8Array => {
+  const roster = members.map((member, index) => ({
+    번호: index + 1,
+    ...Object.fromEntries(SUMMARY_FIELDS.map(field => [FIELD_LABELS[field], field === 'phoneApplicant' || field === 'guardianPhone' ? formatPhone(member.formData[field]) : member.formData[field]])),
+    학년: effectiveGrade(member.formData, date),
+    파일명: memberFileName(member, index),
+  }));
+  const group = [
+    [FIELD_LABELS.affiliation, affiliationName],
+    ['담당자 성명', coordinator.name],
+    ['담당자 연락처', formatPhone(coordinator.phone)],
+    ['담당자 이메일', coordinator.email],
+    ['신청일', formatKoreanDate(date)],
+    ['신청 인원', members.length],
+  ];
+  const consentRecords = consents.map(({ documentId, version, language, agreedAt, contentHash }) => ({
+    문서: MESSAGES.ko[documentId].title,
+    버전: version,
+    언어: language,
+    '동의 일시': agreedAt,
+    '문서 해시': contentHash,
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(roster), '신청자 명단');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(group), '단체 정보');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(consentRecords), '동의 기록');
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+// One PDF per member plus a summary workbook, bundled into a single ZIP archive.
+export const buildGroupArchive = async (input: GroupArchiveInput): Promise<Uint8Array> => {
+  const { affiliation, affiliationName, members, consents, fonts, language, date = new Date() } = input;
+  const zip = new JSZip();
+  for (const [index, member] of members.entries()) {
+    const formData: FormData = { ...member.formData, affiliation, membershipType: '단체' };
+    const pdf = await buildApplicationPdf({ formData, profileImage: member.profileImage, consents, fonts, affiliationName, language, date });
+    zip.file(memberFileName(member, index), pdf);
+  }
+  zip.file('신청자_명단.xlsx', buildSummaryWorkbook(input));
+  return zip.generateAsync({ type: 'uint8array' });
+};
@@ -0,0 +1,33 @@
+import type { Guardian } from '../types';
+import { ADULT_AGE } from '../constants';
+import { optionLabel, type Messages } from '../locales';
+import { calculateAge } from './date';
+import { formatPhone } from './phone';
+
+// Guardian details are required for minors. Until a valid date of birth is
+// entered the applicant is treated as a minor, so the section stays visible.
+export const requiresGuardian = (dateOfBirth: string, referenceDate: Date = new Date()): boolean => {
+  const age = calculateAge(dateOfBirth, referenceDate);
+  return age === null || age < ADULT_AGE;
+};
+
+export const createGuardian = (): Guardian => ({
+  id: crypto.randomUUID(),
+  relationship: '',
+  relationshipOther: '',
+  name: '',
+  phone: '',
+});
+
+// 기타 is shown with the free-text description, e.g. "기타 (삼촌)".
+export const relationshipLabel = (messages: Messages, relationship: string, other: string): string => {
+  const label = optionLabel(messages, 'guardianRelationship', relationship);
+  return relationship === '기타' && other.trim() ? `${label} (${other.trim()})` : label;
+};
+
+// "조부모 김영희 010-1234-5678" per guardian, for single-cell summaries in exports.
+export const describeGuardians = (messages: Messages, guardians: Guardian[]): string =>
+  guardians
+    .map(({ relationship, relationshipOther, name, phone }) =>
+      [relationshipLabel(messages, relationship, relationshipOther), name, formatPhone(phone)].filter(Boolean).join(' '))
+    .join(', ');
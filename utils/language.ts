@@ -0,0 +1,25 @@
+import type { Language } from '../types';
+import { isLanguage } from '../locales';
+
+const LANGUAGE_STORAGE_KEY = 'iyrf-language';
+
+// ?lang=en lets centers share an English link; otherwise the last choice on this device, then Korean.
+export const detectLanguage = (): Language => {
+  const fromUrl = new URLSearchParams(window.location.search).get('lang');
+  if (isLanguage(fromUrl)) return fromUrl;
+  try {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    if (isLanguage(stored)) return stored;
+  } catch {
+    // Storage can be unavailable (e.g. private browsing); the default is fine.
+  }
+  return 'ko';
+};
+
+export const storeLanguage = (language: Language) => {
+  try {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+  } catch {
+    // Not persisting the choice only means it has to be made again next visit.
+  }
+};
@@ -0,0 +1,260 @@
+import JSZip from 'jszip';
+import { PDFDocument, rgb } from 'pdf-lib';
+import QRCode from 'qrcode';
+import type { FormData, Language } from '../types';
+import { MESSAGES, type Messages } from '../locales';
+import { seoulDateString } from './date';
+import { fetchPdfFonts } from './pdfExport';
+
+export interface MemberCardInput {
+  formData: Pick<FormData, 'nameKorean' | 'nameEnglish'>;
+  // Already cropped to the 3:4 ID-photo ratio by the form.
+  profileImage: string | null;
+  affiliationName: string;
+  memberNumber: string;
+  issuedAt?: Date;
+}
+
+type CardMessages = Messages['memberCard'];
+
+const MM_PER_INCH = 25.4;
+const PT_PER_MM = 72 / MM_PER_INCH;
+// ISO/IEC 7810 ID-1 (CR80), the size of a bank card.
+const CR80_MM = { width: 85.6, height: 53.98 };
+const DPI = 300;
+const CARD_PX = { width: Math.round(CR80_MM.width / MM_PER_INCH * DPI), height: Math.round(CR80_MM.height / MM_PER_INCH * DPI) };
+const CARD_PT = { width: CR80_MM.width * PT_PER_MM, height: CR80_MM.height * PT_PER_MM };
+
+const A4 = { width: 595.28, height: 841.89 };
+const SHEET = { columns: 2, rows: 5, gap: 3 * PT_PER_MM };
+export const CARDS_PER_SHEET = SHEET.columns * SHEET.rows;
+
+const ORGANIZATION_EN = 'IYRF Robot Volunteer Corps';
+// The PDF export's NanumGothic, registered under its own name so an installed copy can't stand in for it.
+const CARD_FONT = 'IYRF NanumGothic';
+const FONT_FAMILY = `"${CARD_FONT}", sans-serif`;
+const BRAND_COLOR = '#4f46e5';
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const PADDING = 48;
+
+let fontRequest: Promise<void> | null = null;
+
+// Canvas text falls back silently to whatever the OS has until a font is loaded, so the
+// cards wait for both weights before anything is drawn.
+const loadCardFonts = (language: Language): Promise<void> => {
+  if (!fontRequest) {
+    fontRequest = fetchPdfFonts(language)
+      .then(async ({ regular, bold }) => {
+        for (const [weight, data] of [['normal', regular], ['bold', bold]] as const) {
+          document.fonts.add(await new FontFace(CARD_FONT, data, { weight }).load());
+        }
+        await Promise.all(['normal', 'bold'].map(weight => document.fonts.load(`${weight} 24px "${CARD_FONT}"`)));
+      })
+      .catch(error => {
+        fontRequest = null;
+        throw error;
+      });
+  }
+  return fontRequest;
+};
+
+const createCanvas = (text: CardMessages): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_PX.width;
+  canvas.height = CARD_PX.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(text.canvasUnavailable);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.textBaseline = 'alphabetic';
+  return [canvas, ctx];
+};
+
+// Shrinks the text until it fits, so long names stay on one line.
+const drawFittedText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, size: number, weight = 'normal', color = TEXT_COLOR) => {
+  let fontSize = size;
+  ctx.font = `${weight} ${fontSize}px ${FONT_FAMILY}`;
+  while (fontSize > 12 && ctx.measureText(text).width > maxWidth) {
+    fontSize -= 2;
+    ctx.font = `${weight} ${fontSize}px ${FONT_FAMILY}`;
+  }
+  ctx.fillStyle = color;
+  ctx.fillText(text, x, y);
+};
+
+// Same breaking rules as the PDF export: spaces where possible, otherwise any character.
+const wrapCanvasText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const char of text) {
+    const candidate = line + char;
+    if (ctx.measureText(candidate).width <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    const breakAt = line.lastIndexOf(' ');
+    if (char !== ' ' && breakAt > 0) {
+      lines.push(line.slice(0, breakAt));
+      line = line.slice(breakAt + 1) + char;
+    } else {
+      lines.push(line);
+      line = char === ' ' ? '' : char;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const loadImage = async (dataUrl: string): Promise<HTMLImageElement> => {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+  return image;
+};
+
+// YYYY.MM.DD, the issue date in Korea whatever time zone the browser is in.
+const formatIssueDate = (date: Date) => seoulDateString(date).replace(/-/g, '.');
+
+const drawFront = async ({ formData, profileImage, affiliationName, memberNumber, issuedAt = new Date() }: MemberCardInput, text: CardMessages): Promise<HTMLCanvasElement> => {
+  const [canvas, ctx] = createCanvas(text);
+  const { width, height } = canvas;
+
+  ctx.fillStyle = BRAND_COLOR;
+  ctx.fillRect(0, 0, width, 120);
+  drawFittedText(ctx, text.organization, PADDING, 62, width - PADDING * 2, 40, 'bold', 'white');
+  drawFittedText(ctx, 'MEMBER ID CARD', PADDING, 100, width - PADDING * 2, 24, 'bold', '#c7d2fe');
+  ctx.fillRect(0, height - 24, width, 24);
+
+  const photo = { x: PADDING, y: 160, width: 255, height: 340 };
+  if (profileImage) {
+    ctx.drawImage(await loadImage(profileImage), photo.x, photo.y, photo.width, photo.height);
+  } else {
+    ctx.fillStyle = '#f1f5f9';
+    ctx.fillRect(photo.x, photo.y, photo.width, photo.height);
+    ctx.textAlign = 'center';
+    drawFittedText(ctx, text.noPhoto, photo.x + photo.width / 2, photo.y + photo.height / 2, photo.width, 28, 'normal', MUTED_COLOR);
+    ctx.textAlign = 'left';
+  }
+  ctx.strokeStyle = '#cbd5e1';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(photo.x, photo.y, photo.width, photo.height);
+
+  const x = photo.x + photo.width + 40;
+  const maxWidth = width - x - PADDING;
+  drawFittedText(ctx, formData.nameKorean, x, 220, maxWidth, 64, 'bold');
+  drawFittedText(ctx, formData.nameEnglish, x, 272, maxWidth, 36, 'normal', MUTED_COLOR);
+  drawFittedText(ctx, affiliationName, x, 340, maxWidth, 30);
+  drawFittedText(ctx, text.memberNumber, x, 410, maxWidth, 24, 'normal', MUTED_COLOR);
+  drawFittedText(ctx, memberNumber, x, 460, maxWidth, 44, 'bold', BRAND_COLOR);
+  drawFittedText(ctx, text.issuedAt(formatIssueDate(issuedAt)), x, 530, maxWidth, 24, 'normal', MUTED_COLOR);
+  return canvas;
+};
+
+const drawBack = ({ affiliationName, memberNumber }: MemberCardInput, text: CardMessages): HTMLCanvasElement => {
+  const [canvas, ctx] = createCanvas(text);
+  const { width, height } = canvas;
+
+  ctx.fillStyle = BRAND_COLOR;
+  ctx.fillRect(0, 0, width, 80);
+  drawFittedText(ctx, ORGANIZATION_EN, PADDING, 52, width - PADDING * 2, 32, 'bold', 'white');
+  ctx.fillRect(0, height - 24, width, 24);
+
+  // A quiet zone of two modules keeps the code scannable against the card edge.
+  const qrSize = 320;
+  const qr = { x: width - PADDING - qrSize, y: 120 };
+  const { modules } = QRCode.create(memberNumber, { errorCorrectionLevel: 'M' });
+  const cell = Math.floor(qrSize / (modules.size + 4));
+  const offset = Math.floor((qrSize - cell * modules.size) / 2);
+  ctx.fillStyle = TEXT_COLOR;
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) ctx.fillRect(qr.x + offset + col * cell, qr.y + offset + row * cell, cell, cell);
+    }
+  }
+  ctx.textAlign = 'center';
+  drawFittedText(ctx, memberNumber, qr.x + qrSize / 2, qr.y + qrSize + 44, qrSize, 30, 'bold');
+  ctx.textAlign = 'left';
+
+  const maxWidth = qr.x - PADDING * 2;
+  ctx.font = `24px ${FONT_FAMILY}`;
+  ctx.fillStyle = TEXT_COLOR;
+  let y = 150;
+  text.notice.flatMap(line => wrapCanvasText(ctx, line, maxWidth)).forEach(line => {
+    ctx.fillText(line, PADDING, y);
+    y += 38;
+  });
+  drawFittedText(ctx, affiliationName, PADDING, y + 30, maxWidth, 28, 'bold');
+  return canvas;
+};
+
+const toPngBytes = (canvas: HTMLCanvasElement, text: CardMessages): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => canvas.toBlob(blob => {
+    if (!blob) {
+      reject(new Error(text.imageFailed));
+      return;
+    }
+    blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+  }, 'image/png'));
+
+const renderCard = async (input: MemberCardInput, language: Language): Promise<{ front: Uint8Array; back: Uint8Array }> => {
+  await loadCardFonts(language);
+  const text = MESSAGES[language].memberCard;
+  return {
+    front: await toPngBytes(await drawFront(input, text), text),
+    back: await toPngBytes(drawBack(input, text), text),
+  };
+};
+
+// Front and back as separate 300 dpi PNGs, for card printers that take images.
+export const buildMemberCardPngArchive = async (input: MemberCardInput, language: Language = 'ko'): Promise<Uint8Array> => {
+  const text = MESSAGES[language].memberCard;
+  const { front, back } = await renderCard(input, language);
+  const zip = new JSZip();
+  zip.file(text.frontFileName(input.memberNumber), front);
+  zip.file(text.backFileName(input.memberNumber), back);
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+// Two CR80-sized pages, front then back.
+export const buildMemberCardPdf = async (input: MemberCardInput, language: Language = 'ko'): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  doc.setTitle(MESSAGES[language].memberCard.documentTitle(input.memberNumber));
+  const { front, back } = await renderCard(input, language);
+  for (const png of [front, back]) {
+    const page = doc.addPage([CARD_PT.width, CARD_PT.height]);
+    page.drawImage(await doc.embedPng(png), { x: 0, y: 0, width: CARD_PT.width, height: CARD_PT.height });
+  }
+  return doc.save();
+};
+
+// A4 sheets of ten cards: each page of fronts is followed by its backs, with the columns
+// swapped so they line up when printed double-sided (flip on the long edge).
+export const buildMemberCardSheetPdf = async (inputs: MemberCardInput[], language: Language = 'ko'): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  doc.setTitle(MESSAGES[language].memberCard.sheetTitle);
+  const gridWidth = SHEET.columns * CARD_PT.width + (SHEET.columns - 1) * SHEET.gap;
+  const gridHeight = SHEET.rows * CARD_PT.height + (SHEET.rows - 1) * SHEET.gap;
+  const left = (A4.width - gridWidth) / 2;
+  const top = A4.height - (A4.height - gridHeight) / 2;
+
+  for (let start = 0; start < inputs.length; start += CARDS_PER_SHEET) {
+    const cards = await Promise.all(inputs.slice(start, start + CARDS_PER_SHEET).map(input => renderCard(input, language)));
+    const fronts = doc.addPage([A4.width, A4.height]);
+    const backs = doc.addPage([A4.width, A4.height]);
+    for (const [index, card] of cards.entries()) {
+      const row = Math.floor(index / SHEET.columns);
+      const column = index % SHEET.columns;
+      const y = top - (row + 1) * CARD_PT.height - row * SHEET.gap;
+      const place = async (page: typeof fronts, png: Uint8Array, col: number) => {
+        const x = left + col * (CARD_PT.width + SHEET.gap);
+        page.drawImage(await doc.embedPng(png), { x, y, width: CARD_PT.width, height: CARD_PT.height });
+        // Hairline cut guide around each card.
+        page.drawRectangle({ x, y, width: CARD_PT.width, height: CARD_PT.height, borderColor: rgb(0.8, 0.83, 0.87), borderWidth: 0.25 });
+      };
+      await place(fronts, card.front, column);
+      await place(backs, card.back, SHEET.columns - 1 - column);
+    }
+  }
+  return doc.save();
+};
@@ -0,0 +1,53 @@
+import { readFileSync } from 'fs';
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FormData } from '../types';
+import { buildApplicationPdf } from './pdfExport';
+
+// The page margin in pdfExport.ts; nothing may be drawn below it.
+const MARGIN = 50;
+
+const fonts = {
+  regular: Uint8Array.from(readFileSync('public/fonts/NanumGothic-Regular.ttf')),
+  bold: Uint8Array.from(readFileSync('public/fonts/NanumGothic-Bold.ttf')),
+};
+
+const formData: FormData = {
+  affiliation: 'cheongna', membershipType: '개인', nameKorean: '홍길동', nameEnglish: 'HONG GILDONG', dateOfBirth: '2015-03-04',
+  gender: '남', email: 'parent.hong@example.com', phoneApplicant: '+821012345678', postalCode: '22745',
+  roadAddress: '인천광역시 서구 청라커낼로 252', jibunAddress: '인천광역시 서구 청라동 156-1',
+  // Long enough to wrap over many lines and push the guardians to the bottom of the first page.
+  addressDetail: '101동 1203호 '.repeat(90),
+  guardianRelationship: '기타', guardianRelationshipOther: '이모 (부모님 해외 거주 중 양육을 맡고 있음)', guardianName: '김영희', guardianPhone: '+821098765432',
+  signature: '', guardianSignature: '', gradeOverride: '초2', gradeOverrideReason: 'Started school a year early after moving back from abroad. '.repeat(3),
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('buildApplicationPdf', () => {
+  it('keeps every line above the bottom margin with three guardians in English', async () => {
+    const drawText = vi.spyOn(PDFPage.prototype, 'drawText');
+    const bytes = await buildApplicationPdf({
+      formData,
+      profileImage: null,
+      additionalGuardians: [
+        { id: 'guardian-1', relationship: '부', relationshipOther: '', name: '홍판서', phone: '+821011112222' },
+        { id: 'guardian-2', relationship: '조부모', relationshipOther: '', name: '홍대감', phone: '+821033334444' },
+      ],
+      consents: (['pledge', 'privacy', 'benefits', 'promotion'] as const).map(documentId => ({
+        documentId, version: '2025-01', language: 'en', contentHash: 'f'.repeat(64), agreedAt: '2025-04-01T00:00:00.000Z',
+      })),
+      fonts,
+      affiliationName: '청라 로봇봉사단',
+      language: 'en',
+      date: new Date('2025-04-01T09:00:00+09:00'),
+    });
+
+    const positions = drawText.mock.calls.map(([text, options]) => ({ text, y: options?.y ?? 0 }));
+    expect(positions.length).toBeGreaterThan(0);
+    expect(positions.filter(({ y }) => y < MARGIN)).toEqual([]);
+    expect((await PDFDocument.load(bytes)).getPageCount()).toBeGreaterThanOrEqual(4);
+  });
+});
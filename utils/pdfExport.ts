@@ -0,0 +1,330 @@
+import { PDFDict, PDFDocument, PDFFont, PDFHexString, PDFImage, PDFName, PDFPage, PDFString, rgb } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import type { ConsentRecord, FormData, Guardian, Language } from '../types';
+import { KOREAN_FONT_URLS } from '../constants';
+import { MESSAGES, optionLabel } from '../locales';
+import { formatAddress } from './address';
+import { createApplicationPayload, payloadQrCode, signPayload } from './applicationPayload';
+import { effectiveGrade } from './grade';
+import { describeGuardians, relationshipLabel, requiresGuardian } from './guardians';
+import { formatPhone } from './phone';
+
+export interface PdfFonts {
+  regular: Uint8Array | ArrayBuffer;
+  bold: Uint8Array | ArrayBuffer;
+}
+
+export interface ApplicationPdfInput {
+  formData: FormData;
+  profileImage: string | null;
+  additionalGuardians?: Guardian[];
+  // Printed after the privacy notice so the file shows which document versions were agreed to.
+  consents?: ConsentRecord[];
+  fonts: PdfFonts;
+  // Display name for formData.affiliation, which holds the registry id.
+  affiliationName: string;
+  // Language of the document text; field values are printed as entered.
+  language?: Language;
+  date?: Date;
+}
+
+const A4 = { width: 595.28, height: 841.89 };
+const MARGIN = 50;
+const CONTENT_WIDTH = A4.width - MARGIN * 2;
+const TEXT_COLOR = rgb(0.07, 0.09, 0.15);
+const MUTED_COLOR = rgb(0.4, 0.44, 0.5);
+const RULE_COLOR = rgb(0.8, 0.83, 0.87);
+// 40 mm, so each module of the footer QR code stays large enough to scan from a print.
+const QR_SIZE = (40 / 25.4) * 72;
+
+// Document info entry holding the signed application payload.
+export const PAYLOAD_INFO_KEY = 'IYRFApplication';
+
+export class FontLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FontLoadError';
+  }
+}
+
+let fontRequest: Promise<PdfFonts> | null = null;
+
+export const fetchPdfFonts = (language: Language = 'ko', urls = KOREAN_FONT_URLS): Promise<PdfFonts> => {
+  if (!fontRequest) {
+    const load = async (url: string) => {
+      const response = await fetch(url).catch(() => null);
+      if (!response?.ok) throw new FontLoadError(MESSAGES[language].pdf.fontLoadFailed);
+      return response.arrayBuffer();
+    };
+    fontRequest = Promise.all([load(urls.regular), load(urls.bold)])
+      .then(([regular, bold]) => ({ regular, bold }))
+      .catch(error => {
+        fontRequest = null;
+        throw error;
+      });
+  }
+  return fontRequest;
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+export const readPdfPayload = async (bytes: Uint8Array | ArrayBuffer): Promise<string | null> => {
+  const doc = await PDFDocument.load(bytes, { updateMetadata: false });
+  const info = doc.context.lookupMaybe(doc.context.trailerInfo.Info, PDFDict);
+  const value = info?.lookupMaybe(PDFName.of(PAYLOAD_INFO_KEY), PDFString, PDFHexString);
+  return value ? value.decodeText() : null;
+};
+
+// Breaks on spaces where possible and falls back to per-character breaks,
+// since Korean sentences can contain long runs without whitespace.
+export const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const char of text) {
+    const candidate = line + char;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    const breakAt = line.lastIndexOf(' ');
+    if (char !== ' ' && breakAt > 0) {
+      lines.push(line.slice(0, breakAt));
+      line = line.slice(breakAt + 1) + char;
+    } else {
+      lines.push(line);
+      line = char === ' ' ? '' : char;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const embedDataUrl = async (doc: PDFDocument, dataUrl: string | null): Promise<PDFImage | null> => {
+  if (!dataUrl) return null;
+  if (dataUrl.startsWith('data:image/png')) return doc.embedPng(dataUrl);
+  if (dataUrl.startsWith('data:image/jpeg') || dataUrl.startsWith('data:image/jpg')) return doc.embedJpg(dataUrl);
+  return null;
+};
+
+const drawImageFit = (page: PDFPage, image: PDFImage, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  page.drawImage(image, { x: x + (width - w) / 2, y: y + (height - h) / 2, width: w, height: h });
+};
+
+class PageWriter {
+  page: PDFPage;
+  y: number;
+
+  constructor(private doc: PDFDocument, private fonts: Fonts) {
+    this.page = doc.addPage([A4.width, A4.height]);
+    this.y = A4.height - MARGIN;
+  }
+
+  title(text: string) {
+    const size = 18;
+    const width = this.fonts.bold.widthOfTextAtSize(text, size);
+    this.page.drawText(text, { x: (A4.width - width) / 2, y: this.y - size, size, font: this.fonts.bold, color: TEXT_COLOR });
+    this.y -= size + 28;
+  }
+
+  heading(text: string) {
+    const size = 12;
+    // Keeps the heading on the same page as at least a line of what follows.
+    this.ensureSpace(size + 40);
+    this.page.drawText(text, { x: MARGIN, y: this.y - size, size, font: this.fonts.bold, color: TEXT_COLOR });
+    this.y -= size + 6;
+    this.page.drawLine({ start: { x: MARGIN, y: this.y }, end: { x: A4.width - MARGIN, y: this.y }, thickness: 1, color: RULE_COLOR });
+    this.y -= 12;
+  }
+
+  paragraph(text: string, { size = 10, bold = false, width = CONTENT_WIDTH, gap = 8 } = {}) {
+    const font = bold ? this.fonts.bold : this.fonts.regular;
+    const lineHeight = size * 1.6;
+    wrapText(text, font, size, width).forEach(line => {
+      this.ensureSpace(lineHeight);
+      this.page.drawText(line, { x: MARGIN, y: this.y - size, size, font, color: TEXT_COLOR });
+      this.y -= lineHeight;
+    });
+    this.y -= gap;
+  }
+
+  field(label: string, value: string, width = CONTENT_WIDTH) {
+    const size = 10;
+    const labelWidth = 110;
+    const lines = wrapText(value || '-', this.fonts.regular, size, width - labelWidth);
+    const height = Math.max(lines.length, 1) * size * 1.5;
+    this.ensureSpace(height);
+    this.page.drawText(label, { x: MARGIN, y: this.y - size, size, font: this.fonts.bold, color: MUTED_COLOR });
+    lines.forEach((line, i) => {
+      this.page.drawText(line, { x: MARGIN + labelWidth, y: this.y - size - i * size * 1.5, size, font: this.fonts.regular, color: TEXT_COLOR });
+    });
+    this.y -= height + 8;
+  }
+
+  signature(label: string, name: string, note: string, image: PDFImage | null, x: number) {
+    const size = 10;
+    const boxWidth = 150;
+    const boxHeight = 50;
+    this.ensureSpace(size + 8 + boxHeight);
+    this.page.drawText(`${label} : ${name || '-'} ${note}`, { x, y: this.y - size, size, font: this.fonts.regular, color: TEXT_COLOR });
+    const boxY = this.y - size - 8 - boxHeight;
+    this.page.drawRectangle({ x, y: boxY, width: boxWidth, height: boxHeight, borderColor: RULE_COLOR, borderWidth: 1 });
+    if (image) drawImageFit(this.page, image, x + 4, boxY + 4, boxWidth - 8, boxHeight - 8);
+    return boxY;
+  }
+
+  // Bottom-right corner of the current page, with a caption to its left.
+  footerQrCode(token: string, caption: string) {
+    const { size, runs } = payloadQrCode(token);
+    const module = QR_SIZE / size;
+    const x = A4.width - MARGIN - QR_SIZE;
+    const top = MARGIN + QR_SIZE;
+    const path = runs.map(({ row, start, length }) => `M${start * module} ${row * module}h${length * module}v${module}h${-length * module}z`).join('');
+    this.page.drawSvgPath(path, { x, y: top, color: rgb(0, 0, 0) });
+    const captionWidth = this.fonts.regular.widthOfTextAtSize(caption, 8);
+    this.page.drawText(caption, { x: x - 10 - captionWidth, y: MARGIN, size: 8, font: this.fonts.regular, color: MUTED_COLOR });
+  }
+
+  gap(height: number) {
+    this.y -= height;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage([A4.width, A4.height]);
+      this.y = A4.height - MARGIN;
+    }
+  }
+}
+
+export const buildApplicationPdf = async ({
+  formData,
+  profileImage,
+  additionalGuardians = [],
+  consents = [],
+  fonts,
+  affiliationName,
+  language = 'ko',
+  date = new Date(),
+}: ApplicationPdfInput): Promise<Uint8Array> => {
+  const messages = MESSAGES[language];
+  const { fieldLabels: labels, pledge: pledgeText, benefits: notice, privacy: privacyText } = messages;
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle(`${messages.applicationTitle} - ${formData.nameKorean}`);
+  doc.setLanguage(messages.locale);
+  doc.setCreationDate(date);
+
+  const embedded: Fonts = {
+    regular: await doc.embedFont(fonts.regular, { subset: true }),
+    bold: await doc.embedFont(fonts.bold, { subset: true }),
+  };
+  const photo = await embedDataUrl(doc, profileImage);
+  const signature = await embedDataUrl(doc, formData.signature);
+  const guardianSignature = await embedDataUrl(doc, formData.guardianSignature);
+  const dateString = messages.formatDate(date);
+  // Adult applicants have no guardian section or guardian signature.
+  const hasGuardian = requiresGuardian(formData.dateOfBirth, date);
+
+  // Page 1: the application itself.
+  const application = new PageWriter(doc, embedded);
+  application.title(messages.applicationTitle);
+  application.heading(messages.form.applicantSection);
+
+  const photoBox = { width: 105, height: 140 };
+  const photoX = A4.width - MARGIN - photoBox.width;
+  const photoY = application.y - photoBox.height;
+  application.page.drawRectangle({ x: photoX, y: photoY, ...photoBox, borderColor: RULE_COLOR, borderWidth: 1 });
+  if (photo) drawImageFit(application.page, photo, photoX, photoY, photoBox.width, photoBox.height);
+
+  const besidePhoto = CONTENT_WIDTH - photoBox.width - 20;
+  application.field(labels.affiliation, affiliationName, besidePhoto);
+  application.field(labels.nameKorean, formData.nameKorean, besidePhoto);
+  application.field(labels.nameEnglish, formData.nameEnglish, besidePhoto);
+  application.field(labels.dateOfBirth, formData.dateOfBirth, besidePhoto);
+  application.field(messages.form.grade, messages.gradeLabel(effectiveGrade(formData, date)), besidePhoto);
+  if (formData.gradeOverride) application.field(labels.gradeOverrideReason, formData.gradeOverrideReason, besidePhoto);
+  application.field(labels.membershipType, optionLabel(messages, 'membershipType', formData.membershipType), besidePhoto);
+  application.y = Math.min(application.y, photoY - 12);
+  application.field(labels.gender, optionLabel(messages, 'gender', formData.gender));
+  application.field(labels.email, formData.email);
+  application.field(labels.phoneApplicant, formatPhone(formData.phoneApplicant));
+  application.field(messages.pdf.address, formatAddress(formData));
+  if (formData.jibunAddress) application.field(labels.jibunAddress, formData.jibunAddress);
+  application.gap(8);
+
+  if (hasGuardian) {
+    application.heading(messages.form.guardianSection);
+    application.field(labels.guardianRelationship, relationshipLabel(messages, formData.guardianRelationship, formData.guardianRelationshipOther));
+    application.field(labels.guardianName, formData.guardianName);
+    application.field(labels.guardianPhone, formatPhone(formData.guardianPhone));
+    additionalGuardians.forEach(guardian => application.field(messages.form.additionalGuardians, describeGuardians(messages, [guardian])));
+    application.gap(8);
+  }
+
+  application.ensureSpace(160);
+  application.paragraph(messages.declaration);
+  application.field(messages.form.joinDate, dateString);
+  application.gap(4);
+  const signatureBottom = application.signature(pledgeText.applicant, formData.nameKorean, pledgeText.signHere, signature, MARGIN);
+  if (hasGuardian) application.signature(pledgeText.guardian, formData.guardianName, pledgeText.signHere, guardianSignature, A4.width / 2);
+  application.y = signatureBottom - 12;
+
+  // The application data goes into the document info and, as a compact copy, the footer QR code, for the import page.
+  const { token, qrToken } = await signPayload(createApplicationPayload({ formData, affiliationName, additionalGuardians: hasGuardian ? additionalGuardians : [], consents, date }), language);
+  doc.context.lookup(doc.context.trailerInfo.Info, PDFDict).set(PDFName.of(PAYLOAD_INFO_KEY), PDFHexString.fromText(token));
+  application.ensureSpace(QR_SIZE + 12);
+  application.footerQrCode(qrToken, messages.pdf.payloadCaption);
+
+  // Page 2: the pledge with the applicant's affiliation, name, date and signature.
+  const pledge = new PageWriter(doc, embedded);
+  pledge.title(pledgeText.title);
+  pledgeText.paragraphs.forEach(text => pledge.paragraph(text));
+  pledge.paragraph(pledgeText.closing, { bold: true });
+  pledge.gap(16);
+  pledge.field(pledgeText.date, dateString);
+  pledge.field(pledgeText.affiliation, affiliationName);
+  pledge.field(pledgeText.name, formData.nameKorean);
+  pledge.gap(4);
+  pledge.signature(pledgeText.applicant, formData.nameKorean, pledgeText.signHere, signature, MARGIN);
+  if (hasGuardian) pledge.signature(pledgeText.guardian, formData.guardianName, pledgeText.signHere, guardianSignature, A4.width / 2);
+
+  // Page 3: the volunteer-hours notice the applicant was shown.
+  const benefits = new PageWriter(doc, embedded);
+  benefits.title(notice.title);
+  benefits.paragraph(notice.intro);
+  benefits.heading(notice.requirementsTitle);
+  notice.requirements.forEach(({ label, text }) => {
+    benefits.ensureSpace(40);
+    benefits.paragraph(`• ${label}: ${text}`, { gap: 4 });
+  });
+  benefits.gap(8);
+  benefits.heading(notice.centerTitle);
+  benefits.paragraph(notice.center);
+  const { before, strong, after } = notice.highlight;
+  benefits.paragraph(before + strong + after);
+
+  // Page 4: the privacy notice and the consent records.
+  const privacy = new PageWriter(doc, embedded);
+  privacy.title(privacyText.title);
+  privacy.paragraph(privacyText.intro);
+  privacyText.items.forEach(({ label, text }) => privacy.field(label, text));
+  privacy.paragraph(privacyText.note, { size: 9 });
+  if (consents.length > 0) {
+    privacy.gap(8);
+    privacy.heading(messages.consent.recordsTitle);
+    consents.forEach(({ documentId, version, agreedAt, contentHash }) => {
+      privacy.ensureSpace(50);
+      privacy.paragraph(messages[documentId].title, { bold: true, gap: 2 });
+      privacy.paragraph(`${messages.consent.version} ${version} · ${messages.consent.agreedAt} ${new Date(agreedAt).toLocaleString(messages.locale)}`, { size: 9, gap: 2 });
+      privacy.paragraph(`${messages.consent.contentHash} ${contentHash}`, { size: 8 });
+    });
+  }
+
+  return doc.save();
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { formatPhone, isMobileNumber, isPhoneNumber, normalizePhoneInput, toE164 } from './phone';
+
+describe('formatPhone', () => {
+  it.each([
+    // Seoul has a two-digit area code.
+    ['021234567', '02-123-4567'],
+    ['0212345678', '02-1234-5678'],
+    // Every other area code has three digits.
+    ['0311234567', '031-123-4567'],
+    ['03112345678', '031-1234-5678'],
+    ['07012345678', '070-1234-5678'],
+    ['0111234567', '011-123-4567'],
+    ['01112345678', '011-1234-5678'],
+    ['01012345678', '010-1234-5678'],
+    ['+821012345678', '010-1234-5678'],
+    ['+8221234567', '02-123-4567'],
+  ])('%s is written %s', (value, expected) => {
+    expect(formatPhone(value)).toBe(expected);
+  });
+
+  it.each([
+    ['0', '0'],
+    ['02', '02'],
+    ['0212', '02-12'],
+    ['021234', '02-123-4'],
+    ['010', '010'],
+    ['0101', '010-1'],
+    // 010 keeps a four-digit middle group from the start.
+    ['0101234', '010-1234'],
+    ['01012345', '010-1234-5'],
+    // Other numbers start with three and switch to four when the eleventh digit is typed.
+    ['0111234', '011-123-4'],
+    ['0111234567', '011-123-4567'],
+    ['01112345678', '011-1234-5678'],
+  ])('formats %s as %s while typing', (value, expected) => {
+    expect(formatPhone(value)).toBe(expected);
+  });
+});
+
+describe('toE164', () => {
+  it.each([
+    ['010-1234-5678', '+821012345678'],
+    ['02-123-4567', '+8221234567'],
+    ['031-1234-5678', '+823112345678'],
+    ['070-1234-5678', '+827012345678'],
+    ['011-123-4567', '+82111234567'],
+    ['+821012345678', '+821012345678'],
+  ])('stores %s as %s and shows it the same way again', (formatted, e164) => {
+    expect(toE164(formatted)).toBe(e164);
+    expect(formatPhone(e164)).toBe(formatPhone(formatted));
+  });
+
+  it.each(['1234', '010-1234', '080-123-4567', '0101234567890'])('rejects %s', value => {
+    expect(toE164(value)).toBeNull();
+  });
+});
+
+describe('number types', () => {
+  it.each([
+    ['010-1234-5678', true, true],
+    ['011-123-4567', true, true],
+    ['02-123-4567', false, true],
+    ['070-1234-5678', false, true],
+    ['010-123-4567', false, false],
+  ])('%s: mobile %s, phone %s', (value, mobile, phone) => {
+    expect(isMobileNumber(value)).toBe(mobile);
+    expect(isPhoneNumber(value)).toBe(phone);
+  });
+});
+
+describe('normalizePhoneInput', () => {
+  it.each([
+    ['010-12', '01012'],
+    ['010-1234-5678', '+821012345678'],
+    ['02-123-4567', '+8221234567'],
+    ['010 1234 5678', '+821012345678'],
+  ])('stores %s as %s', (input, expected) => {
+    expect(normalizePhoneInput(input)).toBe(expected);
+  });
+});
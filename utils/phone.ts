@@ -0,0 +1,44 @@
+// Phone numbers are stored in E.164 (+821012345678) once complete, and shown
+// hyphenated the way they are written in Korea (010-1234-5678, 02-123-4567).
+const COUNTRY_PREFIX = '+82';
+const MAX_DIGITS = 11;
+
+const MOBILE_PATTERN = /^(010\d{8}|01[16789]\d{7,8})$/;
+// Seoul (02), the other area codes (031–064) and internet phones (070).
+const LANDLINE_PATTERN = /^(02\d{7,8}|0[3-6][1-5]\d{7,8}|070\d{8})$/;
+
+// Domestic digits with the leading 0, whether the value is E.164, hyphenated or partly typed.
+export const phoneDigits = (value: string): string => {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  return trimmed.startsWith(COUNTRY_PREFIX) ? `0${digits.slice(COUNTRY_PREFIX.length - 1)}` : digits;
+};
+
+export const isMobileNumber = (value: string): boolean => MOBILE_PATTERN.test(phoneDigits(value));
+
+export const isPhoneNumber = (value: string): boolean => {
+  const digits = phoneDigits(value);
+  return MOBILE_PATTERN.test(digits) || LANDLINE_PATTERN.test(digits);
+};
+
+export const toE164 = (value: string): string | null =>
+  isPhoneNumber(value) ? `${COUNTRY_PREFIX}${phoneDigits(value).slice(1)}` : null;
+
+// What an input should store after each keystroke: E.164 once the number is
+// complete, otherwise the digits typed so far so the field can keep formatting them.
+export const normalizePhoneInput = (input: string): string =>
+  toE164(input) ?? phoneDigits(input).slice(0, MAX_DIGITS);
+
+// Hyphenates as the number is typed. 010 numbers always have a four-digit middle
+// group; other numbers switch from three to four once the last group fills up.
+export const formatPhone = (value: string): string => {
+  const digits = phoneDigits(value).slice(0, MAX_DIGITS);
+  if (!digits) return value.trim();
+  const areaLength = digits.startsWith('02') ? 2 : 3;
+  if (digits.length <= areaLength) return digits;
+  const area = digits.slice(0, areaLength);
+  const rest = digits.slice(areaLength);
+  const middleLength = area === '010' || rest.length > 7 ? 4 : 3;
+  if (rest.length <= middleLength) return `${area}-${rest}`;
+  return `${area}-${rest.slice(0, middleLength)}-${rest.slice(middleLength)}`;
+};
@@ -0,0 +1,36 @@
+import type { Language, PhoneVerificationChallenge } from '../types';
+import { MESSAGES } from '../locales';
+
+export class PhoneVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhoneVerificationError';
+  }
+}
+
+// Empty unless the deployment verifies guardians' numbers; the form then skips verification.
+export const PHONE_VERIFICATION_ENDPOINT = process.env.PHONE_VERIFICATION_ENDPOINT ?? '';
+
+const post = async <T>(url: string, body: unknown, language: Language): Promise<T> => {
+  const messages = MESSAGES[language].phoneVerification;
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept-Language': language },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new PhoneVerificationError(messages.unreachable);
+  }
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new PhoneVerificationError(result.message ?? messages.failed);
+  return result as T;
+};
+
+export const requestVerificationCode = (phone: string, language: Language, endpoint = PHONE_VERIFICATION_ENDPOINT) =>
+  post<PhoneVerificationChallenge>(endpoint, { phone }, language);
+
+export const confirmVerificationCode = async (verificationId: string, code: string, language: Language, endpoint = PHONE_VERIFICATION_ENDPOINT) => {
+  await post<{ verified: true }>(`${endpoint}/${encodeURIComponent(verificationId)}/confirm`, { code }, language);
+};
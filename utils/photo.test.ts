@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PHOTO_SETTINGS } from '../constants';
+import { MESSAGES } from '../locales';
+import { renderCroppedPhoto } from './photo';
+
+const FRAME = { width: 240, height: 320 };
+const CROP = { zoom: 1, offsetX: 0, offsetY: 0 };
+const source = { width: 1200, height: 1600 } as unknown as CanvasImageSource & { width: number; height: number };
+
+// jsdom has no canvas, so the encoder is faked: the output size grows with the pixel count and the quality.
+const fakeCanvas = (bytesPerPixel: number) => {
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => ({ fillRect: vi.fn(), drawImage: vi.fn() }),
+    // Every quality the encoder was asked for, in order.
+    qualities: [] as number[],
+    toDataURL: (_type: string, quality: number) => {
+      canvas.qualities.push(quality);
+      return `data:image/jpeg;base64,${'A'.repeat(Math.ceil(canvas.width * canvas.height * bytesPerPixel * quality * 4 / 3))}`;
+    },
+  };
+  const createElement = document.createElement.bind(document);
+  vi.spyOn(document, 'createElement').mockImplementation(((tag: string) => (tag === 'canvas' ? canvas : createElement(tag))) as typeof document.createElement);
+  return canvas;
+};
+
+const bytesOf = (dataUrl: string) => (dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('renderCroppedPhoto', () => {
+  it('keeps the full size when a lower quality is enough', () => {
+    const canvas = fakeCanvas(1);
+    const dataUrl = renderCroppedPhoto(source, FRAME, CROP);
+    expect(canvas.width).toBe(PHOTO_SETTINGS.outputWidth);
+    expect(bytesOf(dataUrl)).toBeLessThanOrEqual(PHOTO_SETTINGS.maxOutputBytes);
+  });
+
+  it('scales the photo down, keeping 3:4, once the quality floor is reached', () => {
+    const canvas = fakeCanvas(4);
+    const dataUrl = renderCroppedPhoto(source, FRAME, CROP);
+    expect(canvas.width).toBeLessThan(PHOTO_SETTINGS.outputWidth);
+    expect(canvas.width).toBeGreaterThanOrEqual(PHOTO_SETTINGS.minWidth);
+    expect(canvas.height * 3).toBe(canvas.width * 4);
+    expect(bytesOf(dataUrl)).toBeLessThanOrEqual(PHOTO_SETTINGS.maxOutputBytes);
+  });
+
+  it('never encodes below the quality floor', () => {
+    const canvas = fakeCanvas(4);
+    renderCroppedPhoto(source, FRAME, CROP);
+    expect(Math.min(...canvas.qualities)).toBe(0.4);
+  });
+
+  it('rejects a photo that is too large even at the minimum resolution', () => {
+    const canvas = fakeCanvas(20);
+    expect(() => renderCroppedPhoto(source, FRAME, CROP, MESSAGES.en.photo)).toThrow(MESSAGES.en.photo.tooDetailed);
+    expect(canvas.width).toBe(PHOTO_SETTINGS.minWidth);
+  });
+});
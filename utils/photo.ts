@@ -0,0 +1,123 @@
+import { PHOTO_SETTINGS } from '../constants';
+import { MESSAGES, type Messages } from '../locales';
+
+type PhotoMessages = Messages['photo'];
+
+export interface CropState {
+  zoom: number;
+  // Displacement of the image centre from the frame centre, in frame pixels.
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface CropRect {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+
+const HEIC_PATTERN = /\.(heic|heif)$/i;
+
+export const isHeic = (file: File) => /image\/hei[cf]/.test(file.type) || HEIC_PATTERN.test(file.name);
+
+export const validatePhotoFile = (file: File, messages: PhotoMessages = MESSAGES.ko.photo): string | undefined => {
+  if (!file.type.startsWith('image/') && !isHeic(file)) return messages.notImage;
+  if (file.size > PHOTO_SETTINGS.maxInputBytes) return messages.tooLarge;
+  return undefined;
+};
+
+// createImageBitmap applies the EXIF orientation tag, so phone photos come out upright.
+export const decodePhoto = async (file: File, messages: PhotoMessages = MESSAGES.ko.photo): Promise<ImageBitmap> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(isHeic(file) ? messages.heicUnsupported : messages.unreadable);
+  }
+  if (bitmap.width < PHOTO_SETTINGS.minWidth || bitmap.height < PHOTO_SETTINGS.minHeight) {
+    bitmap.close();
+    throw new Error(messages.tooSmall);
+  }
+  return bitmap;
+};
+
+const coverScale = (image: Size, frame: Size) => Math.max(frame.width / image.width, frame.height / image.height);
+
+export const clampCrop = (image: Size, frame: Size, crop: CropState): CropState => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, crop.zoom));
+  const scale = coverScale(image, frame) * zoom;
+  const maxX = (image.width * scale - frame.width) / 2;
+  const maxY = (image.height * scale - frame.height) / 2;
+  return {
+    zoom,
+    offsetX: Math.min(maxX, Math.max(-maxX, crop.offsetX)),
+    offsetY: Math.min(maxY, Math.max(-maxY, crop.offsetY)),
+  };
+};
+
+// Maps what is visible inside the frame back to a rectangle of source pixels.
+export const computeCropRect = (image: Size, frame: Size, crop: CropState): CropRect => {
+  const { zoom, offsetX, offsetY } = clampCrop(image, frame, crop);
+  const scale = coverScale(image, frame) * zoom;
+  const sw = frame.width / scale;
+  const sh = frame.height / scale;
+  return {
+    sx: image.width / 2 - offsetX / scale - sw / 2,
+    sy: image.height / 2 - offsetY / scale - sh / 2,
+    sw,
+    sh,
+  };
+};
+
+const dataUrlBytes = (dataUrl: string) => Math.ceil((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+const MIN_QUALITY = 0.4;
+// Each step down keeps this share of the width and height.
+const DOWNSCALE_STEP = 0.85;
+
+// Lowers JPEG quality step by step until the encoded photo fits the size budget. A photo with
+// so much fine detail that it still doesn't fit is made smaller, down to the minimum resolution.
+export const renderCroppedPhoto = (
+  source: CanvasImageSource & Size,
+  frame: Size,
+  crop: CropState,
+  messages: PhotoMessages = MESSAGES.ko.photo,
+): string => {
+  const { outputWidth, outputHeight, minWidth, minHeight, maxOutputBytes } = PHOTO_SETTINGS;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(messages.processingFailed);
+  const { sx, sy, sw, sh } = computeCropRect(source, frame, crop);
+
+  let width = outputWidth;
+  let height = outputHeight;
+  for (;;) {
+    canvas.width = width;
+    canvas.height = height;
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+
+    let quality = 0.92;
+    let dataUrl = canvas.toDataURL('image/jpeg', quality);
+    while (dataUrlBytes(dataUrl) > maxOutputBytes && quality > MIN_QUALITY) {
+      quality = Math.max(MIN_QUALITY, quality - 0.08);
+      dataUrl = canvas.toDataURL('image/jpeg', quality);
+    }
+    if (dataUrlBytes(dataUrl) <= maxOutputBytes) return dataUrl;
+    if (width === minWidth) throw new Error(messages.tooDetailed);
+    // Keeps the 3:4 ratio exact, so the size is derived from the width.
+    width = Math.max(minWidth, Math.round(width * DOWNSCALE_STEP));
+    height = Math.round(width * outputHeight / outputWidth);
+  }
+};
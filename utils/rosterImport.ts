@@ -0,0 +1,134 @@
+import * as XLSX from 'xlsx';
+import type { FormData } from '../types';
+import { FIELD_LABELS } from '../constants';
+import { MESSAGES, type Messages } from '../locales';
+import { normalizePhoneInput } from './phone';
+
+export type RosterRow = Partial<FormData>;
+
+export const ROSTER_FIELDS: (keyof FormData)[] = [
+  'nameKorean', 'nameEnglish', 'dateOfBirth', 'gender', 'phoneApplicant', 'email',
+  'postalCode', 'roadAddress', 'addressDetail',
+  'guardianRelationship', 'guardianRelationshipOther', 'guardianName', 'guardianPhone',
+];
+
+const normalizeHeader = (header: string) => header.replace(/[\s()_-]/g, '').toLowerCase();
+
+const HEADER_ALIASES: Record<string, keyof FormData> = {
+  이름: 'nameKorean',
+  성명: 'nameKorean',
+  영문이름: 'nameEnglish',
+  영문성명: 'nameEnglish',
+  생일: 'dateOfBirth',
+  휴대전화: 'phoneApplicant',
+  핸드폰: 'phoneApplicant',
+  연락처: 'phoneApplicant',
+  이메일: 'email',
+  주소: 'roadAddress',
+  우편번호: 'postalCode',
+  zip: 'postalCode',
+  상세: 'addressDetail',
+  동호수: 'addressDetail',
+  관계: 'guardianRelationship',
+  보호자관계: 'guardianRelationship',
+  보호자연락처: 'guardianPhone',
+  보호자핸드폰: 'guardianPhone',
+};
+
+// Accepts the form labels in either language, the FormData keys themselves, and a few common spreadsheet spellings.
+const HEADER_MAP: Record<string, keyof FormData> = Object.fromEntries([
+  ...ROSTER_FIELDS.map(field => [normalizeHeader(FIELD_LABELS[field]), field]),
+  ...ROSTER_FIELDS.map(field => [normalizeHeader(MESSAGES.en.fieldLabels[field]), field]),
+  ...ROSTER_FIELDS.map(field => [normalizeHeader(field), field]),
+  ...Object.entries(HEADER_ALIASES).map(([alias, field]) => [normalizeHeader(alias), field]),
+]);
+
+const normalizeDate = (value: string): string => {
+  const match = value.trim().match(/^(\d{4})[.\-/\s]*(\d{1,2})[.\-/\s]*(\d{1,2})\.?$/);
+  if (!match) return value.trim();
+  const [, year, month, day] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+// Excel drops the leading zero of Seoul postal codes (04524 → 4524) when the column is numeric.
+const normalizePostalCode = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 4 ? digits.padStart(5, '0') : digits || value.trim();
+};
+
+// Numeric cells lose the leading zero too (01012345678 → 1012345678).
+const normalizePhone = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  if (!digits) return value.trim();
+  return normalizePhoneInput(/^(1[016789]|[2-6])/.test(digits) ? `0${digits}` : value);
+};
+
+const normalizeGender = (value: string): FormData['gender'] => {
+  const v = value.trim().toLowerCase();
+  if (['남', '남자', 'm', 'male'].includes(v)) return '남';
+  if (['여', '여자', 'f', 'female'].includes(v)) return '여';
+  return '';
+};
+
+const normalizeRelationship = (value: string): FormData['guardianRelationship'] => {
+  const v = value.trim().toLowerCase();
+  if (['부', '아버지', 'father'].includes(v)) return '부';
+  if (['모', '어머니', 'mother'].includes(v)) return '모';
+  if (['조부모', '할아버지', '할머니', 'grandparent', 'grandfather', 'grandmother'].includes(v)) return '조부모';
+  if (['법정대리인', '후견인', 'legal guardian'].includes(v)) return '법정대리인';
+  if (['기타', 'other'].includes(v)) return '기타';
+  return '';
+};
+
+const normalizeValue = (field: keyof FormData, value: string): string => {
+  switch (field) {
+    case 'dateOfBirth': return normalizeDate(value);
+    case 'postalCode': return normalizePostalCode(value);
+    case 'phoneApplicant':
+    case 'guardianPhone': return normalizePhone(value);
+    case 'gender': return normalizeGender(value);
+    case 'guardianRelationship': return normalizeRelationship(value);
+    default: return value.trim();
+  }
+};
+
+// Korean Excel saves CSV as CP949 by default, so fall back to EUC-KR when the bytes aren't valid UTF-8.
+const decodeCsv = (data: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder('euc-kr').decode(data);
+  }
+};
+
+export const parseRoster = (data: ArrayBuffer, fileName: string, messages: Messages['roster'] = MESSAGES.ko.roster): RosterRow[] => {
+  const workbook = /\.csv$/i.test(fileName)
+    ? XLSX.read(decodeCsv(data), { type: 'string', raw: true })
+    : XLSX.read(data, { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error(messages.noSheet);
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false, dateNF: 'yyyy-mm-dd' });
+  const headers = Object.keys(rows[0] ?? {});
+  const columns = headers
+    .map(header => [header, HEADER_MAP[normalizeHeader(header)]] as const)
+    .filter(([, field]) => field);
+  if (columns.length === 0) {
+    throw new Error(messages.noColumns(FIELD_LABELS.nameKorean));
+  }
+
+  return rows
+    .map(row => {
+      const member: RosterRow = {};
+      columns.forEach(([header, field]) => {
+        (member as Record<string, string>)[field] = normalizeValue(field, String(row[header] ?? ''));
+      });
+      return member;
+    })
+    .filter(member => Object.values(member).some(Boolean));
+};
+
+export const readRosterFile = async (file: File, messages: Messages['roster'] = MESSAGES.ko.roster): Promise<RosterRow[]> => {
+  if (!/\.(csv|xlsx|xls)$/i.test(file.name)) throw new Error(messages.unsupportedFile);
+  return parseRoster(await file.arrayBuffer(), file.name, messages);
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { escapeFormula } from './spreadsheetExport';
+
+describe('escapeFormula', () => {
+  it.each([
+    ['=HYPERLINK("http://example.com","x")', '\'=HYPERLINK("http://example.com","x")'],
+    ['+821012345678', "'+821012345678"],
+    ['-1+2', "'-1+2"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+    ['\t=1', "'\t=1"],
+    ['\r=1', "'\r=1"],
+    ['010-1234-5678', '010-1234-5678'],
+    ['홍길동', '홍길동'],
+    ['', ''],
+  ])('%j becomes %j', (value, expected) => {
+    expect(escapeFormula(value)).toBe(expected);
+  });
+});
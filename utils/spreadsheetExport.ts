@@ -0,0 +1,89 @@
+import * as XLSX from 'xlsx';
+import type { Affiliation, ApplicationPayload, ApplicationSummary, ConsentDocumentId, ConsentRecord, FormData, Guardian } from '../types';
+import { APPLICATION_STATUS_LABELS, FIELD_LABELS } from '../constants';
+import { MESSAGES } from '../locales';
+import { affiliationName } from './affiliations';
+import { describeGuardians } from './guardians';
+import { formatPhone } from './phone';
+
+const EXPORT_FIELDS = [
+  'affiliation', 'membershipType', 'nameKorean', 'nameEnglish', 'dateOfBirth', 'gender', 'email', 'phoneApplicant',
+  'postalCode', 'roadAddress', 'jibunAddress', 'addressDetail', 'guardianRelationship', 'guardianRelationshipOther', 'guardianName', 'guardianPhone', 'gradeOverrideReason',
+] as const satisfies readonly (keyof FormData)[];
+
+const PHONE_FIELDS: readonly string[] = ['phoneApplicant', 'guardianPhone'];
+
+const exportValue = (formData: ApplicationColumnsInput['formData'], field: typeof EXPORT_FIELDS[number], affiliationName: string) => {
+  if (field === 'affiliation') return affiliationName;
+  // Phones are stored in E.164 but staff dial them in the domestic format.
+  return PHONE_FIELDS.includes(field) ? formatPhone(formData[field]) : formData[field];
+};
+
+const consentTime = (consents: ConsentRecord[], documentId: ConsentDocumentId) => {
+  const record = consents.find(consent => consent.documentId === documentId);
+  return record ? new Date(record.agreedAt).toLocaleString('ko-KR') : '';
+};
+
+interface ApplicationColumnsInput {
+  formData: Pick<FormData, typeof EXPORT_FIELDS[number]>;
+  affiliationName: string;
+  grade: string;
+  additionalGuardians: Guardian[];
+  consents: ConsentRecord[];
+}
+
+// Column headers reuse the form labels so exported sheets read like the paper form.
+// Shared by the admin export and the import page so their sheets line up.
+const applicationColumns = ({ formData, affiliationName, grade, additionalGuardians, consents }: ApplicationColumnsInput): Record<string, string> => ({
+  ...Object.fromEntries(EXPORT_FIELDS.map(field => [FIELD_LABELS[field], exportValue(formData, field, affiliationName)])),
+  '추가 보호자': describeGuardians(MESSAGES.ko, additionalGuardians),
+  학년: grade,
+  // Applications submitted before consents were recorded have none.
+  '개인정보 동의 일시': consentTime(consents, 'privacy'),
+  '홍보 활용 동의': consents.some(record => record.documentId === 'promotion') ? '동의' : '미동의',
+});
+
+// Affiliation ids are written out as their display names.
+export const toExportRows = (applications: ApplicationSummary[], affiliations: Affiliation[]): Record<string, string>[] =>
+  applications.map(({ applicationNumber, submittedAt, status, memberNumber, grade, formData, additionalGuardians, consents }) => ({
+    접수번호: applicationNumber,
+    접수일시: new Date(submittedAt).toLocaleString('ko-KR'),
+    상태: APPLICATION_STATUS_LABELS[status],
+    회원번호: memberNumber ?? '',
+    ...applicationColumns({ formData, affiliationName: affiliationName(affiliations, formData.affiliation), grade, additionalGuardians, consents }),
+  }));
+
+// Payloads carry the affiliation name as it was when the file was exported.
+export const toPayloadRows = (imported: { fileName: string; payload: ApplicationPayload; verified: boolean }[]): Record<string, string>[] =>
+  imported.map(({ fileName, payload, verified }) => ({
+    파일명: fileName,
+    작성일시: new Date(payload.issuedAt).toLocaleString('ko-KR'),
+    '서명 확인': verified ? '확인됨' : '미확인',
+    ...applicationColumns(payload),
+  }));
+
+// Spreadsheet apps run a CSV cell that starts with one of these as a formula. The values come from
+// the public form, so such cells get a leading quote and open as text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const escapeFormula = (value: string): string => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+// The BOM makes Excel open the UTF-8 CSV with Korean intact.
+const toCsvBlob = (rows: Record<string, string>[]): Blob => {
+  const sheet = XLSX.utils.json_to_sheet(rows.map(row => Object.fromEntries(Object.entries(row).map(([column, value]) => [column, escapeFormula(value)]))));
+  return new Blob(['\uFEFF', XLSX.utils.sheet_to_csv(sheet)], { type: 'text/csv;charset=utf-8' });
+};
+
+export const buildPayloadCsv = (imported: { fileName: string; payload: ApplicationPayload; verified: boolean }[]): Blob =>
+  toCsvBlob(toPayloadRows(imported));
+
+export const buildApplicationsWorkbook = (applications: ApplicationSummary[], affiliations: Affiliation[], bookType: 'csv' | 'xlsx'): Blob => {
+  const rows = toExportRows(applications, affiliations);
+  if (bookType === 'csv') return toCsvBlob(rows);
+  // Cells in the workbook are typed as text, so nothing in them is run as a formula.
+  const sheet = XLSX.utils.json_to_sheet(rows);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, '신청서 목록');
+  const bytes = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -0,0 +1,36 @@
+import type { ApplicationSubmission, FormErrors, Language, SubmissionReceipt } from '../types';
+import { MESSAGES } from '../locales';
+
+export class SubmissionError extends Error {
+  constructor(message: string, public errors?: FormErrors) {
+    super(message);
+    this.name = 'SubmissionError';
+  }
+}
+
+// Empty when no server is configured; the form then falls back to downloading the document.
+export const SUBMISSION_ENDPOINT = process.env.SUBMISSION_ENDPOINT ?? '';
+
+// The language is sent as Accept-Language so the server's validation errors match the form.
+export const submitApplication = async (
+  submission: ApplicationSubmission,
+  language: Language = 'ko',
+  endpoint = SUBMISSION_ENDPOINT,
+): Promise<SubmissionReceipt> => {
+  const messages = MESSAGES[language].submission;
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept-Language': language },
+      body: JSON.stringify(submission),
+    });
+  } catch {
+    throw new SubmissionError(messages.unreachable);
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new SubmissionError(body.message ?? messages.failed, body.errors);
+  }
+  return body as SubmissionReceipt;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { FormData, Guardian, GuardianErrors } from '../types';
+import { MAX_APPLICANT_AGE } from '../constants';
+import { MESSAGES } from '../locales';
+import { validateField, validateForm, validateGuardians } from './validation';
+
+const context = (referenceDate: string) => ({ profileImage: null, referenceDate: new Date(`${referenceDate}T00:00:00`) });
+const withBirthDate = (dateOfBirth: string, gradeOverride = '') => ({ dateOfBirth, gradeOverride } as FormData);
+
+describe('dateOfBirth eligibility', () => {
+  it.each([
+    // Born on 31 December: in 초1 from March while still six.
+    ['2018-12-31', '', '2025-03-01', undefined],
+    ['2018-12-31', '', '2025-02-28', MESSAGES.ko.validation.preschoolNotEligible],
+    ['2019-01-01', '', '2025-12-31', MESSAGES.ko.validation.preschoolNotEligible],
+    // An early entrant whose grade was overridden is in the chosen grade.
+    ['2019-01-01', '초1', '2025-12-31', undefined],
+    ['1990-05-05', '', '2025-03-01', undefined],
+    ['1925-03-01', '', '2025-03-01', undefined],
+    ['1850-01-01', '', '2025-03-01', MESSAGES.ko.validation.ageTooOld(MAX_APPLICANT_AGE)],
+    ['2030-01-01', '', '2025-03-01', MESSAGES.ko.validation.dateOfBirthInvalid],
+  ])('born %s with override "%s", checked on %s', (dateOfBirth, gradeOverride, referenceDate, expected) => {
+    expect(validateField('dateOfBirth', withBirthDate(dateOfBirth, gradeOverride), context(referenceDate))).toBe(expected);
+  });
+});
+
+const ko = MESSAGES.ko.validation;
+const REFERENCE_DATE = '2025-04-01';
+const minor: FormData = {
+  affiliation: 'cheongna', membershipType: '개인', nameKorean: '홍길동', nameEnglish: 'HONG GILDONG', dateOfBirth: '2015-03-04',
+  gender: '남', email: 'parent.hong@example.com', phoneApplicant: '+821012345678', postalCode: '22745',
+  roadAddress: '인천광역시 서구 청라커낼로 252', jibunAddress: '', addressDetail: '101동 1203호',
+  guardianRelationship: '모', guardianRelationshipOther: '', guardianName: '김영희', guardianPhone: '+821098765432',
+  signature: 'data:image/png;base64,AA==', guardianSignature: 'data:image/png;base64,AA==', gradeOverride: '', gradeOverrideReason: '',
+};
+const adult: FormData = { ...minor, dateOfBirth: '1990-05-05' };
+
+describe('FIELD_RULES', () => {
+  it.each<[keyof FormData, Partial<FormData>, string | undefined]>([
+    ['email', { email: 'parent.hong@example.com' }, undefined],
+    ['email', { email: '' }, ko.emailRequired],
+    ['email', { email: 'parent.hong@example' }, ko.emailInvalid],
+    ['email', { email: 'parent hong@example.com' }, ko.emailInvalid],
+    ['phoneApplicant', { phoneApplicant: '010-1234-5678' }, undefined],
+    ['phoneApplicant', { phoneApplicant: '+821012345678' }, undefined],
+    ['phoneApplicant', { phoneApplicant: '011-123-4567' }, undefined],
+    ['phoneApplicant', { phoneApplicant: '02-123-4567' }, ko.mobileInvalid],
+    ['phoneApplicant', { phoneApplicant: '1234' }, ko.mobileInvalid],
+    ['guardianPhone', { guardianPhone: '070-1234-5678' }, ko.mobileInvalid],
+    ['nameKorean', { nameKorean: '홍길동' }, undefined],
+    ['nameKorean', { nameKorean: '홍' }, ko.nameKoreanInvalid],
+    ['nameKorean', { nameKorean: 'Hong' }, ko.nameKoreanInvalid],
+    ['nameKorean', { nameKorean: '홍길동1' }, ko.nameKoreanInvalid],
+    // Guardian fields are only checked for minors.
+    ['guardianName', { guardianName: '' }, ko.guardianNameRequired],
+    ['guardianName', { dateOfBirth: adult.dateOfBirth, guardianName: '' }, undefined],
+    ['guardianPhone', { dateOfBirth: adult.dateOfBirth, guardianPhone: '1234' }, undefined],
+    ['guardianSignature', { guardianSignature: '' }, ko.guardianSignatureRequired],
+    ['guardianSignature', { dateOfBirth: adult.dateOfBirth, guardianSignature: '' }, undefined],
+    // The free-text relationship is only needed for 기타.
+    ['guardianRelationshipOther', { guardianRelationship: '기타', guardianRelationshipOther: '' }, ko.guardianRelationshipOtherRequired],
+    ['guardianRelationshipOther', { guardianRelationship: '기타', guardianRelationshipOther: '이모' }, undefined],
+    ['guardianRelationshipOther', { guardianRelationship: '모', guardianRelationshipOther: '' }, undefined],
+    // A reason is only needed when the grade is overridden.
+    ['gradeOverrideReason', { gradeOverride: '초2', gradeOverrideReason: '' }, ko.gradeOverrideReasonRequired],
+    ['gradeOverrideReason', { gradeOverride: '초2', gradeOverrideReason: '빠른년생' }, undefined],
+    ['gradeOverrideReason', { gradeOverride: '', gradeOverrideReason: '' }, undefined],
+    ['gradeOverride', { gradeOverride: '초9' }, ko.gradeOverrideInvalid],
+  ])('%s with %j', (field, overrides, expected) => {
+    expect(validateField(field, { ...minor, ...overrides }, context(REFERENCE_DATE))).toBe(expected);
+  });
+
+  it('finds nothing wrong with a complete application', () => {
+    expect(validateForm(minor, { ...context(REFERENCE_DATE), profileImage: 'data:image/jpeg;base64,AA==' })).toEqual({});
+  });
+});
+
+describe('validateGuardians', () => {
+  const guardian: Guardian = { id: 'guardian-1', relationship: '부', relationshipOther: '', name: '홍판서', phone: '010-1111-2222' };
+
+  it.each<[string, Partial<Guardian>, GuardianErrors]>([
+    ['a complete guardian', {}, {}],
+    ['a missing name', { name: '' }, { name: ko.guardianNameRequired }],
+    ['a landline', { phone: '02-123-4567' }, { phone: ko.mobileInvalid }],
+    ['기타 without a description', { relationship: '기타' }, { relationshipOther: ko.guardianRelationshipOtherRequired }],
+    ['no relationship', { relationship: '' }, { relationship: ko.guardianRelationshipRequired }],
+  ])('reports %s', (_case, overrides, expected) => {
+    expect(validateGuardians([{ ...guardian, ...overrides }], minor, context(REFERENCE_DATE))).toEqual({ [guardian.id]: expected });
+  });
+
+  it('checks nothing for adults', () => {
+    expect(validateGuardians([{ ...guardian, name: '' }], adult, context(REFERENCE_DATE))).toEqual({});
+  });
+});
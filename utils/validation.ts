@@ -0,0 +1,212 @@
+import type { Affiliation, CoordinatorErrors, FormData, FormErrorKey, FormErrors, GroupCoordinator, Guardian, GuardianErrors } from '../types';
+import { GUARDIAN_RELATIONSHIPS, MAX_APPLICANT_AGE } from '../constants';
+import { calculateAge } from './date';
+import { effectiveGrade, GRADE_LABELS, PRESCHOOL_LABEL } from './grade';
+import { requiresGuardian } from './guardians';
+import { isMobileNumber, isPhoneNumber } from './phone';
+import { MESSAGES, type ValidationMessages } from '../locales';
+
+export interface ValidationContext {
+  profileImage: string | null;
+  referenceDate?: Date;
+  // When given, the affiliation must be one of the active registry entries.
+  affiliations?: Affiliation[];
+  // Defaults to Korean, which is also what the submission server uses unless told otherwise.
+  messages?: ValidationMessages;
+}
+
+type Rule<T = FormData> = (value: string, data: T, context: ValidationContext) => string | undefined;
+
+type MessageKey = { [K in keyof ValidationMessages]: ValidationMessages[K] extends string ? K : never }[keyof ValidationMessages];
+
+const messagesFor = ({ messages = MESSAGES.ko.validation }: ValidationContext) => messages;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const HANGUL_NAME_PATTERN = /^[가-힣]{2,10}$/;
+const ENGLISH_NAME_PATTERN = /^[A-Za-z][A-Za-z\s-]*$/;
+const POSTAL_CODE_PATTERN = /^\d{5}$/;
+
+const required = <T>(message: MessageKey): Rule<T> => (value, _data, context) =>
+  value.trim() ? undefined : messagesFor(context)[message];
+
+const pattern = <T>(regex: RegExp, message: MessageKey): Rule<T> => (value, _data, context) =>
+  !value.trim() || regex.test(value.trim()) ? undefined : messagesFor(context)[message];
+
+// Accepts stored E.164 values as well as hyphenated numbers from older drafts and imports.
+const phoneNumber = <T>(isValid: (value: string) => boolean, message: MessageKey): Rule<T> => (value, _data, context) =>
+  !value.trim() || isValid(value) ? undefined : messagesFor(context)[message];
+
+const oneOf = <T>(values: string[], message: MessageKey): Rule<T> => (value, _data, context) =>
+  !value || values.includes(value) ? undefined : messagesFor(context)[message];
+
+// Only enforced when `condition` holds, e.g. the reason for a grade override.
+const requiredIf = <T>(condition: (data: T) => boolean, message: MessageKey): Rule<T> => (value, data, context) =>
+  !condition(data) || value.trim() ? undefined : messagesFor(context)[message];
+
+// Guardian fields are skipped entirely for adults, since the section is hidden for them.
+const forMinors = (rules: Rule[]): Rule[] => rules.map(rule => (value, data, context) =>
+  requiresGuardian(data.dateOfBirth, context.referenceDate) ? rule(value, data, context) : undefined);
+
+// Eligibility follows the school cohort, not the age: a child born in December is in 초1
+// from March of the year they turn seven, while still six, and an early entrant who overrides
+// the grade is in the grade they chose. Adults may join as volunteers, up to MAX_APPLICANT_AGE.
+const allowedAge: Rule = (value, data, context) => {
+  if (!value) return undefined;
+  const age = calculateAge(value, context.referenceDate);
+  if (age === null || age < 0) return messagesFor(context).dateOfBirthInvalid;
+  if (age > MAX_APPLICANT_AGE) return messagesFor(context).ageTooOld(MAX_APPLICANT_AGE);
+  return effectiveGrade(data, context.referenceDate) === PRESCHOOL_LABEL ? messagesFor(context).preschoolNotEligible : undefined;
+};
+
+const knownAffiliation: Rule = (value, _data, context) => {
+  if (!value || !context.affiliations) return undefined;
+  return context.affiliations.some(affiliation => affiliation.id === value && affiliation.active)
+    ? undefined
+    : messagesFor(context).affiliationInvalid;
+};
+
+// Rules are declared in the order fields appear on the form, so the first
+// key of a returned error map is the first invalid field on screen.
+export const FIELD_RULES: { [K in keyof FormData]: Rule[] } = {
+  affiliation: [required('affiliationRequired'), knownAffiliation],
+  nameKorean: [
+    required('nameKoreanRequired'),
+    pattern(HANGUL_NAME_PATTERN, 'nameKoreanInvalid'),
+  ],
+  nameEnglish: [
+    required('nameEnglishRequired'),
+    pattern(ENGLISH_NAME_PATTERN, 'nameEnglishInvalid'),
+  ],
+  dateOfBirth: [required('dateOfBirthRequired'), allowedAge],
+  gradeOverride: [oneOf(GRADE_LABELS, 'gradeOverrideInvalid')],
+  gradeOverrideReason: [requiredIf(data => Boolean(data.gradeOverride), 'gradeOverrideReasonRequired')],
+  membershipType: [required('membershipTypeRequired'), oneOf(['단체', '개인'], 'membershipTypeInvalid')],
+  gender: [required('genderRequired'), oneOf(['남', '여'], 'genderInvalid')],
+  email: [
+    required('emailRequired'),
+    pattern(EMAIL_PATTERN, 'emailInvalid'),
+  ],
+  phoneApplicant: [
+    required('phoneApplicantRequired'),
+    phoneNumber(isMobileNumber, 'mobileInvalid'),
+  ],
+  postalCode: [
+    required('postalCodeRequired'),
+    pattern(POSTAL_CODE_PATTERN, 'postalCodeInvalid'),
+  ],
+  roadAddress: [required('roadAddressRequired')],
+  jibunAddress: [],
+  addressDetail: [],
+  guardianRelationship: forMinors([
+    required('guardianRelationshipRequired'),
+    oneOf(GUARDIAN_RELATIONSHIPS, 'guardianRelationshipInvalid'),
+  ]),
+  guardianRelationshipOther: forMinors([
+    requiredIf(data => data.guardianRelationship === '기타', 'guardianRelationshipOtherRequired'),
+  ]),
+  guardianName: forMinors([required('guardianNameRequired')]),
+  guardianPhone: forMinors([
+    required('guardianPhoneRequired'),
+    phoneNumber(isMobileNumber, 'mobileInvalid'),
+  ]),
+  signature: [required('signatureRequired')],
+  guardianSignature: forMinors([required('guardianSignatureRequired')]),
+};
+
+export const isFormField = (name: string): name is keyof FormData => name in FIELD_RULES;
+
+export const validateField = (
+  field: keyof FormData,
+  data: FormData,
+  context: ValidationContext,
+): string | undefined => {
+  for (const rule of FIELD_RULES[field]) {
+    const message = rule(data[field], data, context);
+    if (message) return message;
+  }
+  return undefined;
+};
+
+export const validateProfileImage = (context: ValidationContext): string | undefined =>
+  context.profileImage ? undefined : messagesFor(context).profileImageRequired;
+
+export const validateForm = (
+  data: FormData,
+  context: ValidationContext,
+  fields = Object.keys(FIELD_RULES) as (keyof FormData)[],
+): FormErrors => {
+  const errors: FormErrors = {};
+  const imageError = validateProfileImage(context);
+  if (imageError) errors.profileImage = imageError;
+  for (const field of fields) {
+    const message = validateField(field, data, context);
+    if (message) errors[field] = message;
+  }
+  return errors;
+};
+
+export const firstErrorKey = (errors: FormErrors): FormErrorKey | undefined =>
+  Object.keys(errors)[0] as FormErrorKey | undefined;
+
+// Group members share the coordinator's affiliation and sign on paper, so
+// their records skip those fields.
+const MEMBER_FIELDS = (Object.keys(FIELD_RULES) as (keyof FormData)[]).filter(
+  field => !['affiliation', 'membershipType', 'signature', 'guardianSignature'].includes(field),
+);
+
+export const validateMember = (data: FormData, context: ValidationContext): FormErrors =>
+  validateForm(data, context, MEMBER_FIELDS);
+
+const COORDINATOR_RULES: { [K in keyof GroupCoordinator]: Rule<GroupCoordinator>[] } = {
+  name: [required('coordinatorNameRequired')],
+  phone: [
+    required('coordinatorPhoneRequired'),
+    // A center's office line is fine for the coordinator.
+    phoneNumber(isPhoneNumber, 'phoneInvalid'),
+  ],
+  email: [
+    required('coordinatorEmailRequired'),
+    pattern(EMAIL_PATTERN, 'emailInvalid'),
+  ],
+};
+
+const validateRecord = <T>(
+  rules: { [K in keyof T]?: Rule<T>[] },
+  record: T,
+  context: ValidationContext,
+): Partial<Record<keyof T, string>> => {
+  const errors: Partial<Record<keyof T, string>> = {};
+  for (const field of Object.keys(rules) as (keyof T)[]) {
+    const message = rules[field]!
+      .map(rule => rule(String(record[field]), record, context))
+      .find(Boolean);
+    if (message) errors[field] = message;
+  }
+  return errors;
+};
+
+export const validateCoordinator = (coordinator: GroupCoordinator, context: ValidationContext): CoordinatorErrors =>
+  validateRecord(COORDINATOR_RULES, coordinator, context);
+
+const GUARDIAN_RULES: { [K in keyof GuardianErrors]: Rule<Guardian>[] } = {
+  relationship: [
+    required('guardianRelationshipRequired'),
+    oneOf(GUARDIAN_RELATIONSHIPS, 'guardianRelationshipInvalid'),
+  ],
+  relationshipOther: [requiredIf(guardian => guardian.relationship === '기타', 'guardianRelationshipOtherRequired')],
+  name: [required('guardianNameRequired')],
+  phone: [
+    required('guardianPhoneRequired'),
+    phoneNumber(isMobileNumber, 'mobileInvalid'),
+  ],
+};
+
+// Errors per additional guardian, keyed by id. Adults list no guardians, so nothing is checked for them.
+export const validateGuardians = (
+  guardians: Guardian[],
+  data: FormData,
+  context: ValidationContext,
+): Record<string, GuardianErrors> => {
+  if (!requiresGuardian(data.dateOfBirth, context.referenceDate)) return {};
+  return Object.fromEntries(guardians.map(guardian => [guardian.id, validateRecord(GUARDIAN_RULES, guardian, context)]));
+};
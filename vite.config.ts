@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -8,12 +9,25 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SUBMISSION_ENDPOINT': JSON.stringify(env.SUBMISSION_ENDPOINT ?? ''),
+        'process.env.ADMIN_API_BASE': JSON.stringify(env.ADMIN_API_BASE ?? ''),
+        'process.env.PAYLOAD_ENDPOINT': JSON.stringify(env.PAYLOAD_ENDPOINT ?? ''),
+        'process.env.PHONE_VERIFICATION_ENDPOINT': JSON.stringify(env.PHONE_VERIFICATION_ENDPOINT ?? '')
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.SUBMISSION_SERVER_PORT || 8787}`
+        }
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./test/setup.ts'],
       }
     };
 });